@@ -1,78 +1,387 @@
-import { useEffect, useMemo, useRef, useState } from "react";
-import { VoiceClient } from "./lib/voiceClient";
-import type { ConnectionStatus, Participant } from "./types/voice";
+import { useEffect, useRef, useState, type KeyboardEvent as ReactKeyboardEvent } from "react";
+import AudioSettingsPanel from "./components/AudioSettingsPanel";
+import ChatPanel from "./components/ChatPanel";
+import MicTestMeter from "./components/MicTestMeter";
+import ParticipantsTable from "./components/ParticipantsTable";
+import RobloxLinkPanel from "./components/RobloxLinkPanel";
+import StagePanel from "./components/StagePanel";
+import { AudioMixer } from "./lib/audioMixer";
+import { DEFAULT_AUDIO_PROCESSING } from "./lib/audioProcessing";
+import {
+  DEFAULT_AUDIO_PREFERENCE,
+  loadAudioPreferences,
+  saveAudioPreferences,
+} from "./lib/audioPreferences";
+import { DEFAULT_CALL_CULLING } from "./lib/callCulling";
+import { TEAM_NAME_MAX_LENGTH } from "./lib/channels";
+import {
+  deviceLabel,
+  listAudioDevices,
+  supportsOutputSelection,
+  type AudioDevices,
+} from "./lib/devices";
+import { DEFAULT_PROXIMITY_SETTINGS } from "./lib/proximity";
+import { requestGuestToken } from "./lib/serverApi";
+import { DEFAULT_VOICE_ACTIVITY_SETTINGS } from "./lib/voiceActivity";
+import {
+  DEFAULT_ROOM_ID,
+  DEFAULT_TRANSMIT_SETTINGS,
+  VoiceClient,
+  normalizeRoomId,
+} from "./lib/voiceClient";
+import type {
+  AudioProcessingSettings,
+  CallCullingSettings,
+  ChatMessage,
+  ConnectionStats,
+  ConnectionStatus,
+  Participant,
+  ParticipantAudioPreference,
+  ProximitySettings,
+  RolloffModel,
+  TransmitMode,
+  TransmitSettings,
+  VoiceActivity,
+  VoiceActivitySettings,
+} from "./types/voice";
+
+const SUGGESTED_ROOMS = [DEFAULT_ROOM_ID, "lobby", "squad-a", "squad-b"];
+const VOICE_TRANSPORT = import.meta.env.VITE_VOICE_TRANSPORT === "socket" ? "socket" : "peerjs";
+const SIGNALING_URL = import.meta.env.VITE_SIGNALING_URL;
+const TRANSMIT_MODES: { value: TransmitMode; label: string }[] = [
+  { value: "open-mic", label: "Open mic" },
+  { value: "push-to-talk", label: "Push to talk" },
+  { value: "voice-activated", label: "Voice activated" },
+];
+
+type KeyBinding = "pushToTalkKey" | "whisperKey";
+
+/** Keys typed into form fields should not key the mic. */
+function isTypingTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+const PEER_SERVER = import.meta.env.VITE_PEER_HOST
+  ? {
+      host: import.meta.env.VITE_PEER_HOST,
+      port: import.meta.env.VITE_PEER_PORT ? Number(import.meta.env.VITE_PEER_PORT) : undefined,
+      path: import.meta.env.VITE_PEER_PATH,
+      secure: import.meta.env.VITE_PEER_SECURE === "true",
+      key: import.meta.env.VITE_PEER_KEY || undefined,
+    }
+  : undefined;
 
 function App() {
-  const [userId, setUserId] = useState(`web-${Math.random().toString(36).slice(2, 10)}`);
-  const roomId = "global-room";
+  const [userId, setUserId] = useState(() => `web-${Math.random().toString(36).slice(2, 10)}`);
+  const [roomId, setRoomId] = useState(DEFAULT_ROOM_ID);
+  const [activeRoomId, setActiveRoomId] = useState<string | null>(null);
+  const [joinToken, setJoinToken] = useState("");
+  const [guestToken, setGuestToken] = useState("");
   const [status, setStatus] = useState<ConnectionStatus>("Disconnected");
   const [participants, setParticipants] = useState<Participant[]>([]);
+  const [selfId, setSelfId] = useState<string | null>(null);
   const [masterVolume, setMasterVolume] = useState(100);
+  const [devices, setDevices] = useState<AudioDevices>({ inputs: [], outputs: [] });
+  const [inputDeviceId, setInputDeviceId] = useState("");
+  const [outputDeviceId, setOutputDeviceId] = useState("");
   const [micEnabled, setMicEnabled] = useState(true);
+  const [serverMuted, setServerMuted] = useState(false);
+  const [audioProcessing, setAudioProcessing] =
+    useState<AudioProcessingSettings>(DEFAULT_AUDIO_PROCESSING);
+  const [transmit, setTransmit] = useState<TransmitSettings>(DEFAULT_TRANSMIT_SETTINGS);
+  const [transmitting, setTransmitting] = useState(false);
+  const [bindingKey, setBindingKey] = useState<KeyBinding | null>(null);
+  const [teamDraft, setTeamDraft] = useState("");
+  const [whisperTargets, setWhisperTargets] = useState<string[]>([]);
+  const [audioPreferences, setAudioPreferences] = useState(loadAudioPreferences);
+  const [proximity, setProximity] = useState<ProximitySettings>(DEFAULT_PROXIMITY_SETTINGS);
+  const [callCulling, setCallCulling] = useState<CallCullingSettings>(DEFAULT_CALL_CULLING);
+  const [voiceActivity, setVoiceActivity] = useState<Record<string, VoiceActivity>>({});
+  const [connectionStats, setConnectionStats] = useState<Record<string, ConnectionStats>>({});
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [speakingSettings, setSpeakingSettings] = useState<VoiceActivitySettings>(
+    DEFAULT_VOICE_ACTIVITY_SETTINGS
+  );
   const [lastError, setLastError] = useState<string>("");
 
-  const audioEls = useRef<Map<string, HTMLAudioElement>>(new Map());
-  const masterVolumeRef = useRef(masterVolume);
-
-  const voiceClient = useMemo(
-    () =>
-      new VoiceClient({
-        onStatus: setStatus,
-        onParticipants: setParticipants,
-        onRemoteStream: (socketId, stream) => {
-          const existing = audioEls.current.get(socketId);
-          if (existing) {
-            existing.srcObject = stream;
-            return;
-          }
-          const audioEl = document.createElement("audio");
-          audioEl.autoplay = true;
-          audioEl.volume = masterVolumeRef.current / 100;
-          audioEl.srcObject = stream;
-          audioEls.current.set(socketId, audioEl);
-        },
-        onPeerDisconnected: (socketId) => {
-          const audioEl = audioEls.current.get(socketId);
-          if (audioEl) {
-            audioEl.srcObject = null;
-            audioEls.current.delete(socketId);
-          }
-        },
-        onError: (message) => setLastError(message),
-      }),
-    []
-  );
+  const mixerRef = useRef<AudioMixer | null>(null);
+  const voiceClientRef = useRef<VoiceClient | null>(null);
+
+  // Matched by participant id: another tab or device may share the same user id.
+  const localParticipant = participants.find((participant) => participant.socketId === selfId);
+  const canModerate = VOICE_TRANSPORT === "socket" && localParticipant?.role === "moderator";
+
+  const getMixer = (): AudioMixer => {
+    if (!mixerRef.current) {
+      mixerRef.current = new AudioMixer();
+      mixerRef.current.setParticipantPreferences(audioPreferences);
+    }
+    return mixerRef.current;
+  };
+
+  // Created lazily from event handlers so the callbacks below never run during render.
+  const getVoiceClient = (): VoiceClient => {
+    if (voiceClientRef.current) {
+      return voiceClientRef.current;
+    }
+    voiceClientRef.current = new VoiceClient({
+      onStatus: (nextStatus) => {
+        setStatus(nextStatus);
+        if (nextStatus === "Disconnected") {
+          setActiveRoomId(null);
+          setServerMuted(false);
+          setVoiceActivity({});
+          setConnectionStats({});
+          setWhisperTargets([]);
+        }
+      },
+      onParticipants: (nextParticipants) => {
+        setSelfId(voiceClientRef.current?.getSelfId() ?? null);
+        setParticipants(nextParticipants);
+      },
+      onRoomChanged: (nextRoomId) => {
+        setActiveRoomId(nextRoomId);
+        setRoomId(nextRoomId);
+        setWhisperTargets([]);
+      },
+      onRemoteStream: (socketId, stream) => getMixer().attach(socketId, stream),
+      onPeerDisconnected: (socketId) => {
+        getMixer().detach(socketId);
+        setConnectionStats((current) => {
+          const next = { ...current };
+          delete next[socketId];
+          return next;
+        });
+      },
+      onError: (message) => setLastError(message),
+      onServerMuted: setServerMuted,
+      onChatMessages: setChatMessages,
+      onSpeaking: (socketId, speaking, level) =>
+        setVoiceActivity((current) => ({ ...current, [socketId]: { speaking, level } })),
+      voiceActivity: speakingSettings,
+      audioContext: () => getMixer().getContext(),
+      onTransmitting: setTransmitting,
+      transmit,
+      onConnectionStats: (socketId, stats) =>
+        setConnectionStats((current) => ({ ...current, [socketId]: stats })),
+      audioProcessing,
+      callCulling,
+      transport: VOICE_TRANSPORT,
+      signalingUrl: SIGNALING_URL,
+      peerServer: PEER_SERVER,
+      iceServersUrl: SIGNALING_URL,
+    });
+    return voiceClientRef.current;
+  };
+
+  const refreshDevices = () => {
+    void listAudioDevices()
+      .then(setDevices)
+      .catch(() => undefined);
+  };
+
+  useEffect(() => {
+    const handleDeviceChange = () => {
+      void listAudioDevices()
+        .then(setDevices)
+        .catch(() => undefined);
+    };
+    handleDeviceChange();
+    navigator.mediaDevices?.addEventListener("devicechange", handleDeviceChange);
+    return () => navigator.mediaDevices?.removeEventListener("devicechange", handleDeviceChange);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      // Disposed clients cannot reconnect, so a remount creates a new one.
+      voiceClientRef.current?.dispose();
+      voiceClientRef.current = null;
+      mixerRef.current?.detachAll();
+    };
+  }, []);
+
+  // Push-to-talk only works while the page has focus; losing focus releases the key.
+  useEffect(() => {
+    if (transmit.mode !== "push-to-talk") {
+      return;
+    }
+    const setHeld = (held: boolean) => voiceClientRef.current?.setPushToTalk(held);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code === transmit.pushToTalkKey && !event.repeat && !isTypingTarget(event.target)) {
+        setHeld(true);
+      }
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === transmit.pushToTalkKey) {
+        setHeld(false);
+      }
+    };
+    const handleBlur = () => setHeld(false);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+      setHeld(false);
+    };
+  }, [transmit.mode, transmit.pushToTalkKey]);
 
+  // Whispering works in every transmit mode; it talks only to the selected participants.
   useEffect(() => {
+    const setHeld = (held: boolean) => voiceClientRef.current?.setWhispering(held);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code === transmit.whisperKey && !event.repeat && !isTypingTarget(event.target)) {
+        setHeld(true);
+      }
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === transmit.whisperKey) {
+        setHeld(false);
+      }
+    };
+    const handleBlur = () => setHeld(false);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
     return () => {
-      voiceClient.disconnect();
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+      setHeld(false);
     };
-  }, [voiceClient]);
+  }, [transmit.whisperKey]);
+
+  useEffect(() => {
+    mixerRef.current?.updateParticipants(localParticipant, participants);
+  }, [localParticipant, participants]);
 
   const handleConnect = async () => {
     setLastError("");
-    await voiceClient.connect({ userId: userId.trim() });
+    const voiceClient = getVoiceClient();
+    await getMixer().resume();
+
+    let token = joinToken.trim();
+    if (!token && VOICE_TRANSPORT === "socket" && SIGNALING_URL) {
+      // Servers without guest tokens (or without tokens at all) refuse this;
+      // the join then goes ahead untokened and the server decides.
+      token = await requestGuestToken(SIGNALING_URL, userId.trim(), normalizeRoomId(roomId))
+        .then((issued) => issued.token)
+        .catch(() => "");
+      setGuestToken(token);
+    }
+
+    await voiceClient.connect({ userId: userId.trim(), roomId, token });
+    setActiveRoomId(voiceClient.getRoomId());
+    // Device labels only become readable after mic permission is granted.
+    refreshDevices();
   };
 
   const handleDisconnect = () => {
-    voiceClient.disconnect();
-    for (const [socketId, audio] of audioEls.current.entries()) {
-      audio.srcObject = null;
-      audioEls.current.delete(socketId);
-    }
+    voiceClientRef.current?.disconnect();
+    mixerRef.current?.detachAll();
   };
 
   const handleMicToggle = (enabled: boolean) => {
     setMicEnabled(enabled);
-    voiceClient.setMuted(!enabled);
+    voiceClientRef.current?.setMuted(!enabled);
+  };
+
+  const handleInputDevice = (deviceId: string) => {
+    setInputDeviceId(deviceId);
+    void getVoiceClient().setInputDevice(deviceId);
+  };
+
+  const handleOutputDevice = (deviceId: string) => {
+    setOutputDeviceId(deviceId);
+    getMixer()
+      .setOutputDevice(deviceId)
+      .catch(() => setLastError("Could not switch the audio output device."));
   };
 
   const handleMasterVolume = (volume: number) => {
     setMasterVolume(volume);
-    masterVolumeRef.current = volume;
-    for (const audioEl of audioEls.current.values()) {
-      audioEl.volume = volume / 100;
+    getMixer().setMasterVolume(volume / 100);
+  };
+
+  const updateAudioProcessing = (patch: Partial<AudioProcessingSettings>) => {
+    const next = { ...audioProcessing, ...patch };
+    setAudioProcessing(next);
+    getVoiceClient().setAudioProcessing(next);
+  };
+
+  const updateTransmit = (patch: Partial<TransmitSettings>) => {
+    const next = { ...transmit, ...patch };
+    setTransmit(next);
+    getVoiceClient().setTransmitSettings(next);
+  };
+
+  const handleBindKey = (event: ReactKeyboardEvent<HTMLButtonElement>) => {
+    if (!bindingKey) {
+      return;
+    }
+    event.preventDefault();
+    // Keep the press from reaching the window push-to-talk and whisper listeners.
+    event.stopPropagation();
+    if (event.code !== "Escape") {
+      updateTransmit({ [bindingKey]: event.code });
     }
+    setBindingKey(null);
+  };
+
+  const handleTeam = (team: string | null) => {
+    setTeamDraft(getVoiceClient().setTeam(team) ?? "");
+  };
+
+  const toggleWhisperTarget = (socketId: string) => {
+    const next = whisperTargets.includes(socketId)
+      ? whisperTargets.filter((target) => target !== socketId)
+      : [...whisperTargets, socketId];
+    setWhisperTargets(next);
+    getVoiceClient().setWhisperTargets(next);
+  };
+
+  const updateSpeakingSettings = (patch: Partial<VoiceActivitySettings>) => {
+    const next = { ...speakingSettings, ...patch };
+    setSpeakingSettings(next);
+    getVoiceClient().setVoiceActivitySettings(next);
+  };
+
+  const updateAudioPreference = (
+    remoteUserId: string,
+    patch: Partial<ParticipantAudioPreference>
+  ) => {
+    const next = {
+      ...audioPreferences,
+      [remoteUserId]: {
+        ...DEFAULT_AUDIO_PREFERENCE,
+        ...audioPreferences[remoteUserId],
+        ...patch,
+      },
+    };
+    setAudioPreferences(next);
+    saveAudioPreferences(next);
+    getMixer().setParticipantPreferences(next);
+  };
+
+  const updateCallCulling = (patch: Partial<CallCullingSettings>) => {
+    const next = { ...callCulling, ...patch };
+    setCallCulling(next);
+    getVoiceClient().setCallCulling(next);
+  };
+
+  const updateProximity = (patch: Partial<ProximitySettings>) => {
+    const next = { ...proximity, ...patch };
+    setProximity(next);
+    getMixer().setProximitySettings(next);
+    // Calls follow the hearing radius; without distance fading only the cap applies.
+    updateCallCulling({ enabled: next.enabled, hearingRadius: next.maxDistance });
   };
 
   return (
@@ -81,7 +390,13 @@ function App() {
         <section className="card bg-base-200 shadow-xl">
           <div className="card-body">
             <h1 className="card-title text-3xl">Proximity Voice</h1>
-            <p className="text-sm opacity-80">Browser-hosted internet voice lobby.</p>
+            <p className="text-sm opacity-80">
+              {VOICE_TRANSPORT === "socket"
+                ? `Voice lobby via signaling server ${SIGNALING_URL ?? "(not configured)"}.`
+                : PEER_SERVER
+                  ? `Browser-hosted voice lobby via PeerJS broker ${PEER_SERVER.host}.`
+                  : "Browser-hosted internet voice lobby."}
+            </p>
 
             <label className="form-control w-full">
               <span className="label-text mb-1">User ID</span>
@@ -93,13 +408,45 @@ function App() {
               />
             </label>
 
-            <div className="mt-2 text-sm opacity-80">Room ID: {roomId}</div>
+            {VOICE_TRANSPORT === "socket" ? (
+              <label className="form-control w-full">
+                <span className="label-text mb-1">Join token (optional)</span>
+                <input
+                  className="input input-bordered font-mono text-xs"
+                  placeholder="Leave empty to request a guest token"
+                  value={joinToken}
+                  onChange={(event) => setJoinToken(event.target.value)}
+                  disabled={status !== "Disconnected"}
+                />
+              </label>
+            ) : null}
+
+            <label className="form-control w-full">
+              <span className="label-text mb-1">Room ID</span>
+              <input
+                className="input input-bordered"
+                list="suggested-rooms"
+                value={roomId}
+                onChange={(event) => setRoomId(event.target.value)}
+                onBlur={() => setRoomId((current) => normalizeRoomId(current))}
+                disabled={status !== "Disconnected"}
+              />
+              <datalist id="suggested-rooms">
+                {SUGGESTED_ROOMS.map((room) => (
+                  <option key={room} value={room} />
+                ))}
+              </datalist>
+            </label>
+
+            <div className="mt-2 text-sm opacity-80">
+              {activeRoomId ? `In room: ${activeRoomId}` : "Not in a room"}
+            </div>
 
             <div className="mt-2 flex gap-2">
               <button
                 className="btn btn-primary"
                 onClick={handleConnect}
-                disabled={status !== "Disconnected" || !userId.trim()}
+                disabled={status !== "Disconnected" || !userId.trim() || !normalizeRoomId(roomId)}
               >
                 Connect
               </button>
@@ -117,7 +464,7 @@ function App() {
                 className={`badge ${
                   status === "Connected"
                     ? "badge-success"
-                    : status === "Connecting"
+                    : status === "Connecting" || status === "Reconnecting"
                       ? "badge-warning"
                       : "badge-ghost"
                 }`}
@@ -132,9 +479,56 @@ function App() {
           <div className="card-body">
             <h2 className="card-title">Voice Controls</h2>
             <p className="text-sm opacity-70">
-              Connected users can talk globally without linking.
+              Connected users can talk to everyone in the same room without linking.
             </p>
 
+            <div className="flex flex-wrap gap-4">
+              <label className="form-control grow">
+                <span className="label-text mb-1">Microphone</span>
+                <select
+                  className="select select-bordered select-sm"
+                  value={inputDeviceId}
+                  onChange={(event) => handleInputDevice(event.target.value)}
+                >
+                  <option value="">System default</option>
+                  {devices.inputs
+                    .filter((device) => device.deviceId && device.deviceId !== "default")
+                    .map((device, index) => (
+                      <option key={device.deviceId} value={device.deviceId}>
+                        {deviceLabel(device, index)}
+                      </option>
+                    ))}
+                </select>
+              </label>
+
+              <label className="form-control grow">
+                <span className="label-text mb-1">Speakers</span>
+                <select
+                  className="select select-bordered select-sm"
+                  value={outputDeviceId}
+                  onChange={(event) => handleOutputDevice(event.target.value)}
+                  disabled={!supportsOutputSelection()}
+                >
+                  <option value="">System default</option>
+                  {devices.outputs
+                    .filter((device) => device.deviceId && device.deviceId !== "default")
+                    .map((device, index) => (
+                      <option key={device.deviceId} value={device.deviceId}>
+                        {deviceLabel(device, index)}
+                      </option>
+                    ))}
+                </select>
+              </label>
+            </div>
+
+            {status === "Disconnected" ? (
+              <MicTestMeter
+                key={inputDeviceId}
+                deviceId={inputDeviceId}
+                onMicAccess={refreshDevices}
+              />
+            ) : null}
+
             <label className="form-control w-full">
               <span className="label-text mb-1">Master Volume ({masterVolume}%)</span>
               <input
@@ -158,46 +552,268 @@ function App() {
               <span className="label-text">Microphone Enabled</span>
             </label>
 
-            {lastError ? <p className="text-error text-sm">{lastError}</p> : null}
-          </div>
-        </section>
+            <div className="flex flex-wrap items-end gap-4">
+              <label className="form-control">
+                <span className="label-text mb-1">Transmit mode</span>
+                <select
+                  className="select select-bordered select-sm"
+                  value={transmit.mode}
+                  onChange={(event) => updateTransmit({ mode: event.target.value as TransmitMode })}
+                >
+                  {TRANSMIT_MODES.map((mode) => (
+                    <option key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
 
-        <section className="card bg-base-200 shadow-xl">
-          <div className="card-body">
-            <h2 className="card-title">Participants</h2>
-            <p className="text-sm opacity-70">Live connected users and output state.</p>
-            <div className="overflow-x-auto">
-              <table className="table">
-                <thead>
-                  <tr>
-                    <th>User ID</th>
-                    <th>Socket</th>
-                    <th>Output</th>
-                    <th>Muted</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {participants.length === 0 ? (
-                    <tr>
-                      <td colSpan={4} className="opacity-60">
-                        No active participants.
-                      </td>
-                    </tr>
-                  ) : (
-                    participants.map((participant) => (
-                      <tr key={participant.socketId}>
-                        <td>{participant.userId}</td>
-                        <td className="font-mono text-xs">{participant.socketId}</td>
-                        <td>{participant.userId === userId ? "local" : "remote"}</td>
-                        <td>{participant.muted ? "Yes" : "No"}</td>
-                      </tr>
-                    ))
-                  )}
-                </tbody>
-              </table>
+              {transmit.mode === "push-to-talk" ? (
+                <button
+                  className={`btn btn-sm ${bindingKey === "pushToTalkKey" ? "btn-warning" : "btn-outline"}`}
+                  onClick={() => setBindingKey("pushToTalkKey")}
+                  onKeyDown={handleBindKey}
+                  onBlur={() => setBindingKey(null)}
+                >
+                  {bindingKey === "pushToTalkKey"
+                    ? "Press a key (Esc cancels)"
+                    : `Talk key: ${transmit.pushToTalkKey}`}
+                </button>
+              ) : null}
+
+              {transmit.mode === "voice-activated" ? (
+                <label className="form-control grow">
+                  <span className="label-text mb-1">
+                    Noise gate ({Math.round(transmit.gateThreshold * 100)}%)
+                  </span>
+                  <input
+                    className="range range-sm"
+                    type="range"
+                    min={5}
+                    max={90}
+                    value={Math.round(transmit.gateThreshold * 100)}
+                    onChange={(event) =>
+                      updateTransmit({ gateThreshold: Number(event.target.value) / 100 })
+                    }
+                  />
+                </label>
+              ) : null}
+
+              {status === "Connected" ? (
+                <span className={`badge ${transmitting ? "badge-success" : "badge-ghost"}`}>
+                  {transmitting ? "Transmitting" : "Not transmitting"}
+                </span>
+              ) : null}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4">
+              <label className="form-control">
+                <span className="label-text mb-1">
+                  Team channel ({localParticipant?.team ?? "whole room"})
+                </span>
+                <input
+                  className="input input-bordered input-sm"
+                  value={teamDraft}
+                  maxLength={TEAM_NAME_MAX_LENGTH}
+                  placeholder="e.g. red"
+                  onChange={(event) => setTeamDraft(event.target.value)}
+                />
+              </label>
+              <button
+                className="btn btn-sm btn-outline"
+                onClick={() => handleTeam(teamDraft)}
+                disabled={!teamDraft.trim()}
+              >
+                Join team
+              </button>
+              <button
+                className="btn btn-sm btn-ghost"
+                onClick={() => handleTeam(null)}
+                disabled={!localParticipant?.team}
+              >
+                Leave team
+              </button>
+
+              <button
+                className={`btn btn-sm ${bindingKey === "whisperKey" ? "btn-warning" : "btn-outline"}`}
+                onClick={() => setBindingKey("whisperKey")}
+                onKeyDown={handleBindKey}
+                onBlur={() => setBindingKey(null)}
+              >
+                {bindingKey === "whisperKey"
+                  ? "Press a key (Esc cancels)"
+                  : `Whisper key: ${transmit.whisperKey}`}
+              </button>
+              <span className="text-sm opacity-70">
+                {whisperTargets.length > 0
+                  ? `Whispers to ${whisperTargets.length} selected`
+                  : "Pick whisper targets in the participant list"}
+              </span>
+              {localParticipant?.whisperTargets?.length ? (
+                <span className="badge badge-secondary">Whispering</span>
+              ) : null}
             </div>
+
+            <label className="form-control w-full">
+              <span className="label-text mb-1">
+                Speaking threshold ({Math.round(speakingSettings.threshold * 100)}%)
+              </span>
+              <input
+                className="range range-sm"
+                type="range"
+                min={5}
+                max={90}
+                value={Math.round(speakingSettings.threshold * 100)}
+                onChange={(event) =>
+                  updateSpeakingSettings({ threshold: Number(event.target.value) / 100 })
+                }
+              />
+            </label>
+
+            {serverMuted ? (
+              <p className="text-warning text-sm">
+                A moderator muted you. Your microphone stays off until they unmute you.
+              </p>
+            ) : null}
+
+            <div className="divider my-1">Proximity</div>
+
+            <label className="label cursor-pointer justify-start gap-2">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-primary"
+                checked={proximity.enabled}
+                onChange={(event) => updateProximity({ enabled: event.target.checked })}
+              />
+              <span className="label-text">Fade voices by in-game distance</span>
+            </label>
+
+            <div className="flex flex-wrap gap-4">
+              <label className="form-control">
+                <span className="label-text mb-1">Rolloff</span>
+                <select
+                  className="select select-bordered select-sm"
+                  value={proximity.rolloff}
+                  onChange={(event) =>
+                    updateProximity({ rolloff: event.target.value as RolloffModel })
+                  }
+                  disabled={!proximity.enabled}
+                >
+                  <option value="linear">Linear</option>
+                  <option value="inverse">Inverse</option>
+                  <option value="exponential">Exponential</option>
+                </select>
+              </label>
+
+              <label className="form-control grow">
+                <span className="label-text mb-1">
+                  Hearing radius ({proximity.maxDistance} studs)
+                </span>
+                <input
+                  className="range range-sm"
+                  type="range"
+                  min={proximity.refDistance + 5}
+                  max={200}
+                  value={proximity.maxDistance}
+                  onChange={(event) => updateProximity({ maxDistance: Number(event.target.value) })}
+                  disabled={!proximity.enabled}
+                />
+              </label>
+            </div>
+
+            <label className="label cursor-pointer justify-start gap-2">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-primary"
+                checked={proximity.stereoPanning}
+                onChange={(event) => updateProximity({ stereoPanning: event.target.checked })}
+                disabled={!proximity.enabled}
+              />
+              <span className="label-text">Stereo panning</span>
+            </label>
+
+            <div className="flex flex-wrap gap-4">
+              <label className="form-control grow">
+                <span className="label-text mb-1">
+                  Always connect nearest ({callCulling.nearestCount})
+                </span>
+                <input
+                  className="range range-sm"
+                  type="range"
+                  min={0}
+                  max={16}
+                  value={callCulling.nearestCount}
+                  onChange={(event) =>
+                    updateCallCulling({ nearestCount: Number(event.target.value) })
+                  }
+                  disabled={!proximity.enabled}
+                />
+              </label>
+
+              <label className="form-control grow">
+                <span className="label-text mb-1">Call limit ({callCulling.maxCalls})</span>
+                <input
+                  className="range range-sm"
+                  type="range"
+                  min={4}
+                  max={64}
+                  value={callCulling.maxCalls}
+                  onChange={(event) => updateCallCulling({ maxCalls: Number(event.target.value) })}
+                />
+              </label>
+            </div>
+
+            {lastError ? <p className="text-error text-sm">{lastError}</p> : null}
           </div>
         </section>
+
+        <AudioSettingsPanel settings={audioProcessing} onChange={updateAudioProcessing} />
+
+        {SIGNALING_URL ? (
+          <RobloxLinkPanel
+            signalingUrl={SIGNALING_URL}
+            userId={userId.trim()}
+            token={joinToken.trim() || guestToken || undefined}
+            liveRobloxUserId={localParticipant?.robloxUserId}
+          />
+        ) : null}
+
+        <StagePanel
+          participants={participants}
+          localParticipant={localParticipant}
+          canModerate={canModerate}
+          onSetStageMode={(enabled) =>
+            voiceClientRef.current?.moderate({ type: "set-stage-mode", enabled })
+          }
+          onRaiseHand={(raised) => voiceClientRef.current?.raiseHand(raised)}
+          onSetStageRole={(socketId, role) =>
+            voiceClientRef.current?.moderate({ type: "set-stage-role", socketId, role })
+          }
+        />
+
+        <ParticipantsTable
+          participants={participants}
+          localParticipant={localParticipant}
+          voiceActivity={voiceActivity}
+          connectionStats={connectionStats}
+          audioPreferences={audioPreferences}
+          onAudioPreferenceChange={updateAudioPreference}
+          whisperTargets={whisperTargets}
+          onToggleWhisperTarget={toggleWhisperTarget}
+          canModerate={canModerate}
+          onModerate={(action) => voiceClientRef.current?.moderate(action)}
+        />
+
+        <ChatPanel
+          messages={chatMessages}
+          localUserId={userId}
+          connected={status === "Connected"}
+          canModerate={canModerate}
+          onSend={(text) => voiceClientRef.current?.sendChatMessage(text) ?? false}
+          onDelete={(messageId) =>
+            voiceClientRef.current?.moderate({ type: "delete-chat-message", messageId })
+          }
+        />
       </div>
     </div>
   );
@@ -0,0 +1,126 @@
+import type { AudioProcessingSettings } from "../types/voice";
+
+type AudioSettingsPanelProps = {
+  settings: AudioProcessingSettings;
+  onChange: (patch: Partial<AudioProcessingSettings>) => void;
+};
+
+type ToggleKey = {
+  [K in keyof AudioProcessingSettings]: AudioProcessingSettings[K] extends boolean ? K : never;
+}[keyof AudioProcessingSettings];
+
+const BROWSER_TOGGLES: { key: ToggleKey; label: string }[] = [
+  { key: "echoCancellation", label: "Echo cancellation" },
+  { key: "noiseSuppression", label: "Noise suppression" },
+  { key: "autoGainControl", label: "Automatic gain control" },
+];
+
+function AudioSettingsPanel({ settings, onChange }: AudioSettingsPanelProps) {
+  return (
+    <section className="card bg-base-200 shadow-xl">
+      <div className="card-body">
+        <h2 className="card-title">Audio Settings</h2>
+        <p className="text-sm opacity-70">
+          Processing applied to your microphone before it is sent. Changes apply live.
+        </p>
+
+        <div className="divider my-1">Browser</div>
+
+        <div className="flex flex-wrap gap-x-6">
+          {BROWSER_TOGGLES.map((toggle) => (
+            <label key={toggle.key} className="label cursor-pointer justify-start gap-2">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-primary"
+                checked={settings[toggle.key]}
+                onChange={(event) => onChange({ [toggle.key]: event.target.checked })}
+              />
+              <span className="label-text">{toggle.label}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="divider my-1">Processing</div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="label cursor-pointer justify-start gap-2">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-primary"
+              checked={settings.highPassEnabled}
+              onChange={(event) => onChange({ highPassEnabled: event.target.checked })}
+            />
+            <span className="label-text">High-pass filter</span>
+          </label>
+          <label className="form-control grow">
+            <span className="label-text mb-1">Cutoff ({settings.highPassFrequency} Hz)</span>
+            <input
+              className="range range-sm"
+              type="range"
+              min={40}
+              max={300}
+              step={10}
+              value={settings.highPassFrequency}
+              onChange={(event) => onChange({ highPassFrequency: Number(event.target.value) })}
+              disabled={!settings.highPassEnabled}
+            />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="label cursor-pointer justify-start gap-2">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-primary"
+              checked={settings.noiseGateEnabled}
+              onChange={(event) => onChange({ noiseGateEnabled: event.target.checked })}
+            />
+            <span className="label-text">Noise gate</span>
+          </label>
+          <label className="form-control grow">
+            <span className="label-text mb-1">
+              Threshold ({Math.round(settings.noiseGateThreshold * 100)}%)
+            </span>
+            <input
+              className="range range-sm"
+              type="range"
+              min={5}
+              max={80}
+              value={Math.round(settings.noiseGateThreshold * 100)}
+              onChange={(event) =>
+                onChange({ noiseGateThreshold: Number(event.target.value) / 100 })
+              }
+              disabled={!settings.noiseGateEnabled}
+            />
+          </label>
+        </div>
+
+        <label className="label cursor-pointer justify-start gap-2">
+          <input
+            type="checkbox"
+            className="checkbox checkbox-primary"
+            checked={settings.compressorEnabled}
+            onChange={(event) => onChange({ compressorEnabled: event.target.checked })}
+          />
+          <span className="label-text">Compressor</span>
+        </label>
+
+        <label className="form-control w-full">
+          <span className="label-text mb-1">
+            Input gain ({Math.round(settings.inputGain * 100)}%)
+          </span>
+          <input
+            className="range range-sm"
+            type="range"
+            min={0}
+            max={200}
+            value={Math.round(settings.inputGain * 100)}
+            onChange={(event) => onChange({ inputGain: Number(event.target.value) / 100 })}
+          />
+        </label>
+      </div>
+    </section>
+  );
+}
+
+export default AudioSettingsPanel;
@@ -0,0 +1,131 @@
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { CHAT_MAX_LENGTH } from "../lib/chat";
+import type { ChatMessage } from "../types/voice";
+
+type ChatPanelProps = {
+  messages: ChatMessage[];
+  localUserId: string;
+  connected: boolean;
+  /** Show delete buttons; the server still checks the role. */
+  canModerate: boolean;
+  /** @returns whether the message was sent, so the draft is only cleared then */
+  onSend: (text: string) => boolean;
+  onDelete: (messageId: string) => void;
+};
+
+function formatTime(sentAt: number): string {
+  return new Date(sentAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function ChatPanel({
+  messages,
+  localUserId,
+  connected,
+  canModerate,
+  onSend,
+  onDelete,
+}: ChatPanelProps) {
+  const [open, setOpen] = useState(true);
+  const [draft, setDraft] = useState("");
+  // Newest message the user has seen; anything later is unread while collapsed.
+  const [lastSeenAt, setLastSeenAt] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const unreadCount = open
+    ? 0
+    : messages.filter((message) => message.sentAt > lastSeenAt && message.userId !== localUserId)
+        .length;
+
+  // Keep the newest message in view.
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [messages, open]);
+
+  const handleToggle = () => {
+    if (open) {
+      setLastSeenAt(messages.at(-1)?.sentAt ?? 0);
+    }
+    setOpen(!open);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (onSend(draft)) {
+      setDraft("");
+    }
+  };
+
+  return (
+    <section className="card bg-base-200 shadow-xl">
+      <div className="card-body">
+        <div className="flex items-center justify-between">
+          <h2 className="card-title">
+            Chat
+            {unreadCount > 0 ? (
+              <span className="badge badge-primary badge-sm">{unreadCount} new</span>
+            ) : null}
+          </h2>
+          <button className="btn btn-ghost btn-xs" onClick={handleToggle}>
+            {open ? "Hide" : "Show"}
+          </button>
+        </div>
+
+        {open ? (
+          <>
+            <div ref={listRef} className="flex max-h-72 flex-col gap-1 overflow-y-auto">
+              {messages.length === 0 ? (
+                <p className="text-sm opacity-60">No messages yet.</p>
+              ) : (
+                messages.map((message) => (
+                  <div key={message.id} className="group flex items-baseline gap-2 text-sm">
+                    <span className="font-mono text-xs opacity-60">
+                      {formatTime(message.sentAt)}
+                    </span>
+                    <span
+                      className={`font-semibold ${message.userId === localUserId ? "text-primary" : ""}`}
+                    >
+                      {message.userId}
+                    </span>
+                    <span className="grow break-words">{message.text}</span>
+                    {canModerate ? (
+                      <button
+                        className="btn btn-ghost btn-xs opacity-0 group-hover:opacity-100"
+                        title="Delete message"
+                        onClick={() => onDelete(message.id)}
+                      >
+                        Delete
+                      </button>
+                    ) : null}
+                  </div>
+                ))
+              )}
+            </div>
+
+            <form className="join w-full" onSubmit={handleSubmit}>
+              <input
+                className="input input-bordered input-sm join-item grow"
+                value={draft}
+                maxLength={CHAT_MAX_LENGTH}
+                placeholder={connected ? "Message the room" : "Join a room to chat"}
+                onChange={(event) => setDraft(event.target.value)}
+                disabled={!connected}
+              />
+              <button
+                className="btn btn-primary btn-sm join-item"
+                type="submit"
+                disabled={!connected || !draft.trim()}
+              >
+                Send
+              </button>
+            </form>
+          </>
+        ) : null}
+      </div>
+    </section>
+  );
+}
+
+export default ChatPanel;
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from "react";
+import { VoiceActivityDetector } from "../lib/voiceActivity";
+
+type MicTestMeterProps = {
+  /** Microphone to test; empty for the system default. */
+  deviceId: string;
+  /** Called once the browser grants mic access, so device labels can be reloaded. */
+  onMicAccess: () => void;
+};
+
+type MicTestSession = {
+  detector: VoiceActivityDetector;
+  stream: MediaStream;
+};
+
+function releaseSession(session: MicTestSession | null): void {
+  session?.detector.close();
+  session?.stream.getTracks().forEach((track) => track.stop());
+}
+
+/** Live input level for checking a microphone before joining a room. */
+function MicTestMeter({ deviceId, onMicAccess }: MicTestMeterProps) {
+  const [testing, setTesting] = useState(false);
+  const [level, setLevel] = useState(0);
+  const [testError, setTestError] = useState("");
+  const sessionRef = useRef<MicTestSession | null>(null);
+
+  useEffect(() => {
+    return () => {
+      releaseSession(sessionRef.current);
+      sessionRef.current = null;
+    };
+  }, []);
+
+  const startTest = async () => {
+    setTestError("");
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { deviceId: deviceId ? { exact: deviceId } : undefined },
+        video: false,
+      });
+    } catch {
+      setTestError("Could not open the microphone.");
+      return;
+    }
+    const detector = new VoiceActivityDetector((_id, _speaking, nextLevel) => setLevel(nextLevel));
+    detector.add("mic-test", stream);
+    sessionRef.current = { detector, stream };
+    setTesting(true);
+    onMicAccess();
+  };
+
+  const stopTest = () => {
+    releaseSession(sessionRef.current);
+    sessionRef.current = null;
+    setTesting(false);
+    setLevel(0);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button className="btn btn-sm btn-outline" onClick={testing ? stopTest : startTest}>
+        {testing ? "Stop mic test" : "Test microphone"}
+      </button>
+      {testing ? (
+        <progress className="progress progress-success w-40" value={level} max={1} />
+      ) : null}
+      {testError ? <span className="text-error text-sm">{testError}</span> : null}
+    </div>
+  );
+}
+
+export default MicTestMeter;
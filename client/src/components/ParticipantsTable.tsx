@@ -0,0 +1,324 @@
+import { Fragment, useState } from "react";
+import { DEFAULT_AUDIO_PREFERENCE } from "../lib/audioPreferences";
+import { distanceBetween } from "../lib/proximity";
+import type {
+  ConnectionQuality,
+  ConnectionStats,
+  ModerationAction,
+  Participant,
+  ParticipantAudioPreference,
+  VoiceActivity,
+} from "../types/voice";
+
+type ParticipantsTableProps = {
+  participants: Participant[];
+  /** This client's own entry, matched by participant id rather than user id. */
+  localParticipant?: Participant;
+  /** Live speaking state keyed by socket id. */
+  voiceActivity: Record<string, VoiceActivity>;
+  /** Latest network stats keyed by socket id; only remote peers have entries. */
+  connectionStats: Record<string, ConnectionStats>;
+  /** Local volume and "mute for me" keyed by user id. */
+  audioPreferences: Record<string, ParticipantAudioPreference>;
+  onAudioPreferenceChange: (userId: string, patch: Partial<ParticipantAudioPreference>) => void;
+  /** Socket ids the local whisper key talks to. */
+  whisperTargets: string[];
+  onToggleWhisperTarget: (socketId: string) => void;
+  /** Show moderator controls; the server still checks the role. */
+  canModerate: boolean;
+  onModerate: (action: ModerationAction) => void;
+};
+
+const BAN_DURATIONS = [
+  { label: "10 min", seconds: 10 * 60 },
+  { label: "1 hour", seconds: 60 * 60 },
+  { label: "1 day", seconds: 24 * 60 * 60 },
+];
+
+const QUALITY_BADGES: Record<ConnectionQuality, { className: string; label: string }> = {
+  good: { className: "badge-success", label: "▂▄▆ good" },
+  fair: { className: "badge-warning", label: "▂▄ fair" },
+  poor: { className: "badge-error", label: "▂ poor" },
+  unknown: { className: "badge-ghost", label: "… n/a" },
+};
+
+function formatStat(value: number | undefined, unit: string, digits = 0): string {
+  return value === undefined ? "—" : `${value.toFixed(digits)} ${unit}`;
+}
+
+function ConnectionDiagnostics({ stats }: { stats: ConnectionStats }) {
+  const relayed = stats.localCandidateType === "relay" || stats.remoteCandidateType === "relay";
+  return (
+    <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs">
+      <span>RTT: {formatStat(stats.rttMs, "ms")}</span>
+      <span>Jitter: {formatStat(stats.jitterMs, "ms")}</span>
+      <span>Loss: {formatStat(stats.packetLossPercent, "%", 1)}</span>
+      <span>In: {formatStat(stats.inboundKbps, "kbps")}</span>
+      <span>Out: {formatStat(stats.outboundKbps, "kbps")}</span>
+      <span>
+        Path: {stats.localCandidateType ?? "?"} ↔ {stats.remoteCandidateType ?? "?"}
+        {relayed ? " (via TURN relay)" : ""}
+      </span>
+    </div>
+  );
+}
+
+function formatDistance(participant: Participant, localParticipant?: Participant): string {
+  if (participant === localParticipant || !localParticipant?.inGame || !localParticipant.position) {
+    return "—";
+  }
+  if (!participant.inGame || !participant.position) {
+    return "not in game";
+  }
+  return `${distanceBetween(localParticipant.position, participant.position).toFixed(1)} studs`;
+}
+
+function ParticipantsTable({
+  participants,
+  localParticipant,
+  voiceActivity,
+  connectionStats,
+  audioPreferences,
+  onAudioPreferenceChange,
+  whisperTargets,
+  onToggleWhisperTarget,
+  canModerate,
+  onModerate,
+}: ParticipantsTableProps) {
+  const [banSeconds, setBanSeconds] = useState(BAN_DURATIONS[1].seconds);
+  const [expandedSocketId, setExpandedSocketId] = useState<string | null>(null);
+  const columnCount = canModerate ? 11 : 10;
+
+  return (
+    <section className="card bg-base-200 shadow-xl">
+      <div className="card-body">
+        <h2 className="card-title">Participants</h2>
+        <p className="text-sm opacity-70">Live connected users and output state.</p>
+
+        {canModerate ? (
+          <label className="flex items-center gap-2 text-sm">
+            <span className="opacity-70">Ban duration</span>
+            <select
+              className="select select-bordered select-xs"
+              value={banSeconds}
+              onChange={(event) => setBanSeconds(Number(event.target.value))}
+            >
+              {BAN_DURATIONS.map((duration) => (
+                <option key={duration.seconds} value={duration.seconds}>
+                  {duration.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+
+        <div className="overflow-x-auto">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>User ID</th>
+                <th>Socket</th>
+                <th>Output</th>
+                <th>Voice</th>
+                <th>Network</th>
+                <th>Channel</th>
+                <th>Volume</th>
+                <th>Roblox</th>
+                <th>Muted</th>
+                <th>Distance</th>
+                {canModerate ? <th>Moderation</th> : null}
+              </tr>
+            </thead>
+            <tbody>
+              {participants.length === 0 ? (
+                <tr>
+                  <td colSpan={columnCount} className="opacity-60">
+                    No active participants.
+                  </td>
+                </tr>
+              ) : (
+                participants.map((participant) => {
+                  const isLocal = participant.socketId === localParticipant?.socketId;
+                  const activity = voiceActivity[participant.socketId];
+                  const stats = connectionStats[participant.socketId];
+                  const expanded = stats !== undefined && expandedSocketId === participant.socketId;
+                  const preference =
+                    audioPreferences[participant.userId] ?? DEFAULT_AUDIO_PREFERENCE;
+                  return (
+                    <Fragment key={participant.socketId}>
+                      <tr className={activity?.speaking ? "bg-success/10" : undefined}>
+                        <td>
+                          {participant.userId}
+                          {participant.role === "moderator" ? (
+                            <span className="badge badge-info badge-sm ml-2">mod</span>
+                          ) : null}
+                          {participant.reconnecting ? (
+                            <span className="badge badge-warning badge-sm ml-2">reconnecting</span>
+                          ) : null}
+                          {participant.stageRole ? (
+                            <span
+                              className={`badge badge-sm ml-2 ${participant.stageRole === "speaker" ? "badge-accent" : "badge-ghost"}`}
+                            >
+                              {participant.stageRole}
+                            </span>
+                          ) : null}
+                          {participant.handRaisedAt !== undefined ? (
+                            <span className="badge badge-warning badge-sm ml-2">✋ hand raised</span>
+                          ) : null}
+                        </td>
+                        <td className="font-mono text-xs">{participant.socketId}</td>
+                        <td>{isLocal ? "local" : "remote"}</td>
+                        <td>
+                          <progress
+                            className={`progress w-16 ${activity?.speaking ? "progress-success" : ""}`}
+                            value={activity?.level ?? 0}
+                            max={1}
+                          />
+                          {participant.transmitting ? (
+                            <span className="badge badge-success badge-sm ml-2">on air</span>
+                          ) : null}
+                        </td>
+                        <td>
+                          {stats ? (
+                            <button
+                              className={`badge badge-sm cursor-pointer ${QUALITY_BADGES[stats.quality].className}`}
+                              title="Show connection diagnostics"
+                              onClick={() =>
+                                setExpandedSocketId(expanded ? null : participant.socketId)
+                              }
+                            >
+                              {QUALITY_BADGES[stats.quality].label}
+                            </button>
+                          ) : (
+                            "—"
+                          )}
+                        </td>
+                        <td>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <span className="badge badge-outline badge-sm">
+                              {participant.team ?? "room"}
+                            </span>
+                            {participant.whisperTargets?.length ? (
+                              <span className="badge badge-secondary badge-sm">
+                                {localParticipant &&
+                                participant.whisperTargets.includes(localParticipant.socketId)
+                                  ? "whispering to you"
+                                  : "whispering"}
+                              </span>
+                            ) : null}
+                            {isLocal ? null : (
+                              <label className="label cursor-pointer gap-1 p-0">
+                                <input
+                                  type="checkbox"
+                                  className="checkbox checkbox-xs"
+                                  checked={whisperTargets.includes(participant.socketId)}
+                                  onChange={() => onToggleWhisperTarget(participant.socketId)}
+                                />
+                                <span className="label-text text-xs">whisper</span>
+                              </label>
+                            )}
+                          </div>
+                        </td>
+                        <td>
+                          {isLocal ? (
+                            "—"
+                          ) : (
+                            <div className="flex items-center gap-2">
+                              <input
+                                className="range range-xs w-24"
+                                type="range"
+                                min={0}
+                                max={200}
+                                value={Math.round(preference.volume * 100)}
+                                onChange={(event) =>
+                                  onAudioPreferenceChange(participant.userId, {
+                                    volume: Number(event.target.value) / 100,
+                                  })
+                                }
+                                disabled={preference.mutedForMe}
+                              />
+                              <span className="w-10 text-xs">
+                                {Math.round(preference.volume * 100)}%
+                              </span>
+                              <button
+                                className={`btn btn-xs ${preference.mutedForMe ? "btn-error" : "btn-ghost"}`}
+                                onClick={() =>
+                                  onAudioPreferenceChange(participant.userId, {
+                                    mutedForMe: !preference.mutedForMe,
+                                  })
+                                }
+                              >
+                                {preference.mutedForMe ? "Unmute for me" : "Mute for me"}
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                        <td className="font-mono text-xs">{participant.robloxUserId ?? "—"}</td>
+                        <td>
+                          {participant.muted ? "Yes" : "No"}
+                          {participant.serverMuted ? (
+                            <span className="badge badge-error badge-sm ml-2">server</span>
+                          ) : null}
+                        </td>
+                        <td>{formatDistance(participant, localParticipant)}</td>
+                        {canModerate ? (
+                          <td>
+                            {isLocal ? null : (
+                              <div className="join">
+                                <button
+                                  className="btn btn-xs join-item"
+                                  onClick={() =>
+                                    onModerate({
+                                      type: "server-mute",
+                                      socketId: participant.socketId,
+                                      muted: !participant.serverMuted,
+                                    })
+                                  }
+                                >
+                                  {participant.serverMuted ? "Unmute" : "Mute"}
+                                </button>
+                                <button
+                                  className="btn btn-xs btn-warning join-item"
+                                  onClick={() =>
+                                    onModerate({ type: "kick", socketId: participant.socketId })
+                                  }
+                                >
+                                  Kick
+                                </button>
+                                <button
+                                  className="btn btn-xs btn-error join-item"
+                                  onClick={() =>
+                                    onModerate({
+                                      type: "ban",
+                                      socketId: participant.socketId,
+                                      durationSeconds: banSeconds,
+                                    })
+                                  }
+                                >
+                                  Ban
+                                </button>
+                              </div>
+                            )}
+                          </td>
+                        ) : null}
+                      </tr>
+                      {expanded ? (
+                        <tr>
+                          <td colSpan={columnCount} className="bg-base-300/50">
+                            <ConnectionDiagnostics stats={stats} />
+                          </td>
+                        </tr>
+                      ) : null}
+                    </Fragment>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default ParticipantsTable;
@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { fetchLinkedRobloxUserId, requestLinkCode, type LinkCode } from "../lib/serverApi";
+
+type RobloxLinkPanelProps = {
+  signalingUrl: string;
+  userId: string;
+  /** Join token proving who `userId` is, when the server requires one. */
+  token?: string;
+  /** Link reported by the signaling server for the local participant, if any. */
+  liveRobloxUserId?: number;
+};
+
+const STATUS_POLL_MS = 3000;
+
+function RobloxLinkPanel({ signalingUrl, userId, token, liveRobloxUserId }: RobloxLinkPanelProps) {
+  const [linkCode, setLinkCode] = useState<LinkCode | null>(null);
+  const [polledRobloxUserId, setPolledRobloxUserId] = useState<number | null>(null);
+  const [linkError, setLinkError] = useState("");
+
+  const linkedRobloxUserId = liveRobloxUserId ?? polledRobloxUserId;
+
+  // While a code is outstanding, poll until the game server confirms it.
+  useEffect(() => {
+    if (!linkCode) {
+      return;
+    }
+    const timer = setInterval(async () => {
+      if (Date.now() >= linkCode.expiresAt) {
+        setLinkCode(null);
+        setLinkError("Link code expired. Request a new one.");
+        return;
+      }
+      try {
+        const robloxUserId = await fetchLinkedRobloxUserId(signalingUrl, userId);
+        if (robloxUserId !== null) {
+          setPolledRobloxUserId(robloxUserId);
+          setLinkCode(null);
+        }
+      } catch {
+        // Transient; try again on the next tick.
+      }
+    }, STATUS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [linkCode, signalingUrl, userId]);
+
+  const handleRequestCode = async () => {
+    setLinkError("");
+    try {
+      setLinkCode(await requestLinkCode(signalingUrl, userId, token));
+    } catch (error) {
+      setLinkError(error instanceof Error ? error.message : "Could not request a link code.");
+    }
+  };
+
+  return (
+    <section className="card bg-base-200 shadow-xl">
+      <div className="card-body">
+        <h2 className="card-title">Roblox Account</h2>
+        <p className="text-sm opacity-70">
+          Link your Roblox account so your in-game position drives proximity voice.
+        </p>
+
+        {linkedRobloxUserId ? (
+          <p className="text-sm">
+            Linked to Roblox user <span className="font-mono">{linkedRobloxUserId}</span>.
+          </p>
+        ) : null}
+
+        {linkCode ? (
+          <div className="flex flex-col gap-1">
+            <span className="font-mono text-3xl tracking-widest">{linkCode.code}</span>
+            <span className="text-sm opacity-70">
+              Enter this code in game before{" "}
+              {new Date(linkCode.expiresAt).toLocaleTimeString()}.
+            </span>
+          </div>
+        ) : null}
+
+        <div>
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={handleRequestCode}
+            disabled={!userId.trim()}
+          >
+            {linkedRobloxUserId ? "Link a different account" : "Get link code"}
+          </button>
+        </div>
+
+        {linkError ? <p className="text-error text-sm">{linkError}</p> : null}
+      </div>
+    </section>
+  );
+}
+
+export default RobloxLinkPanel;
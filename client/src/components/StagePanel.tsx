@@ -0,0 +1,119 @@
+import type { Participant, StageRole } from "../types/voice";
+
+type StagePanelProps = {
+  participants: Participant[];
+  localParticipant?: Participant;
+  /** Show stage controls; the server still checks the role. */
+  canModerate: boolean;
+  onSetStageMode: (enabled: boolean) => void;
+  onRaiseHand: (raised: boolean) => void;
+  onSetStageRole: (socketId: string, role: StageRole) => void;
+};
+
+function StagePanel({
+  participants,
+  localParticipant,
+  canModerate,
+  onSetStageMode,
+  onRaiseHand,
+  onSetStageRole,
+}: StagePanelProps) {
+  const stageActive = participants.some((participant) => participant.stageRole !== undefined);
+  const speakers = participants.filter((participant) => participant.stageRole === "speaker");
+  // First come, first served.
+  const raisedHands = participants
+    .filter((participant) => participant.handRaisedAt !== undefined)
+    .sort((a, b) => (a.handRaisedAt ?? 0) - (b.handRaisedAt ?? 0));
+  const isListener = localParticipant?.stageRole === "listener";
+  const handRaised = localParticipant?.handRaisedAt !== undefined;
+
+  if (!stageActive && !canModerate) {
+    return null;
+  }
+
+  return (
+    <section className="card bg-base-200 shadow-xl">
+      <div className="card-body">
+        <div className="flex items-center justify-between">
+          <h2 className="card-title">Stage</h2>
+          {canModerate ? (
+            <label className="label cursor-pointer gap-2">
+              <span className="label-text">Stage mode</span>
+              <input
+                type="checkbox"
+                className="toggle toggle-primary"
+                checked={stageActive}
+                onChange={(event) => onSetStageMode(event.target.checked)}
+              />
+            </label>
+          ) : null}
+        </div>
+
+        {stageActive ? (
+          <>
+            <p className="text-sm opacity-70">
+              Only speakers send audio. Listeners can raise a hand to ask a moderator for the stage.
+            </p>
+
+            {isListener ? (
+              <div>
+                <button
+                  className={`btn btn-sm ${handRaised ? "btn-warning" : "btn-outline"}`}
+                  onClick={() => onRaiseHand(!handRaised)}
+                >
+                  {handRaised ? "Lower hand" : "✋ Raise hand"}
+                </button>
+              </div>
+            ) : null}
+
+            <div className="divider my-1">Speakers</div>
+            <ul className="flex flex-col gap-1 text-sm">
+              {speakers.map((participant) => (
+                <li key={participant.socketId} className="flex items-center gap-2">
+                  <span className="grow">{participant.userId}</span>
+                  {canModerate && participant !== localParticipant ? (
+                    <button
+                      className="btn btn-xs"
+                      onClick={() => onSetStageRole(participant.socketId, "listener")}
+                    >
+                      Move to audience
+                    </button>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+
+            <div className="divider my-1">Raised hands ({raisedHands.length})</div>
+            {raisedHands.length === 0 ? (
+              <p className="text-sm opacity-60">No one is waiting.</p>
+            ) : (
+              <ol className="flex list-decimal flex-col gap-1 pl-5 text-sm">
+                {raisedHands.map((participant) => (
+                  <li key={participant.socketId}>
+                    <div className="flex items-center gap-2">
+                      <span className="grow">{participant.userId}</span>
+                      {canModerate ? (
+                        <button
+                          className="btn btn-xs btn-primary"
+                          onClick={() => onSetStageRole(participant.socketId, "speaker")}
+                        >
+                          Invite to speak
+                        </button>
+                      ) : null}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        ) : (
+          <p className="text-sm opacity-70">
+            Turn on stage mode for events: moderators speak, everyone else listens until invited.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default StagePanel;
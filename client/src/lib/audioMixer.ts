@@ -0,0 +1,191 @@
+import type {
+  Participant,
+  ParticipantAudioPreference,
+  ProximitySettings,
+} from "../types/voice";
+import { DEFAULT_AUDIO_PREFERENCE } from "./audioPreferences";
+import { canHear } from "./channels";
+import { DEFAULT_PROXIMITY_SETTINGS, computeSpatialMix } from "./proximity";
+
+type RemoteChannel = {
+  // Chrome only pulls audio from a remote WebRTC stream while a media element
+  // consumes it, so each stream stays attached to a muted <audio>.
+  element: HTMLAudioElement;
+  source: MediaStreamAudioSourceNode;
+  /** Per-user volume and "mute for me" picked by the listener. */
+  userGain: GainNode;
+  spatialGain: GainNode;
+  panner: StereoPannerNode;
+};
+
+// Time constant for gain/pan ramps; avoids zipper noise as positions stream in.
+const SMOOTHING_SECONDS = 0.05;
+
+/**
+ * Plays remote participant streams through one Web Audio graph:
+ * source -> user gain -> distance gain -> stereo panner -> master gain -> output.
+ * The user gain also silences streams that team channels and whispers route away.
+ * The output is one <audio> element, so `setSinkId` can pick the speakers.
+ */
+export class AudioMixer {
+  private context: AudioContext | null = null;
+
+  private master: GainNode | null = null;
+
+  private output: HTMLAudioElement | null = null;
+
+  private outputDeviceId = "";
+
+  private masterVolume = 1;
+
+  private channels = new Map<string, RemoteChannel>();
+
+  private settings: ProximitySettings = DEFAULT_PROXIMITY_SETTINGS;
+
+  private local: Participant | undefined;
+
+  private participants: Participant[] = [];
+
+  private preferences: Record<string, ParticipantAudioPreference> = {};
+
+  /** Call from a user gesture so the browser lets the context start. */
+  async resume(): Promise<void> {
+    const context = this.ensureContext();
+    if (context.state === "suspended") {
+      await context.resume();
+    }
+    await this.output?.play().catch(() => undefined);
+  }
+
+  /** @param deviceId an `audiooutput` device id; empty for the system default. */
+  async setOutputDevice(deviceId: string): Promise<void> {
+    this.outputDeviceId = deviceId;
+    if (this.output) {
+      await this.output.setSinkId(deviceId);
+    }
+  }
+
+  /** The mixer's audio context, for other analysis to share instead of opening its own. */
+  getContext(): AudioContext {
+    return this.ensureContext();
+  }
+
+  attach(peerId: string, stream: MediaStream): void {
+    this.detach(peerId);
+    const context = this.ensureContext();
+    const master = this.master;
+    if (!master) {
+      return;
+    }
+
+    const element = new Audio();
+    element.muted = true;
+    element.srcObject = stream;
+    void element.play().catch(() => undefined);
+
+    const source = context.createMediaStreamSource(stream);
+    const userGain = context.createGain();
+    const spatialGain = context.createGain();
+    const panner = context.createStereoPanner();
+    source.connect(userGain).connect(spatialGain).connect(panner).connect(master);
+
+    this.channels.set(peerId, { element, source, userGain, spatialGain, panner });
+    this.applyMix(peerId);
+  }
+
+  detach(peerId: string): void {
+    const channel = this.channels.get(peerId);
+    if (!channel) {
+      return;
+    }
+    channel.source.disconnect();
+    channel.userGain.disconnect();
+    channel.spatialGain.disconnect();
+    channel.panner.disconnect();
+    channel.element.srcObject = null;
+    this.channels.delete(peerId);
+  }
+
+  detachAll(): void {
+    for (const peerId of Array.from(this.channels.keys())) {
+      this.detach(peerId);
+    }
+  }
+
+  /** @param volume 0..1 */
+  setMasterVolume(volume: number): void {
+    this.masterVolume = volume;
+    if (this.context && this.master) {
+      this.master.gain.setTargetAtTime(volume, this.context.currentTime, SMOOTHING_SECONDS);
+    }
+  }
+
+  setProximitySettings(settings: ProximitySettings): void {
+    this.settings = settings;
+    this.applyAllMixes();
+  }
+
+  /** Keyed by `userId`; applied to whichever streams those users are on. */
+  setParticipantPreferences(preferences: Record<string, ParticipantAudioPreference>): void {
+    this.preferences = preferences;
+    this.applyAllMixes();
+  }
+
+  /** Re-evaluates distance and panning for everyone after a participant update. */
+  updateParticipants(local: Participant | undefined, participants: Participant[]): void {
+    this.local = local;
+    this.participants = participants;
+    this.applyAllMixes();
+  }
+
+  private ensureContext(): AudioContext {
+    if (this.context) {
+      return this.context;
+    }
+    const context = new AudioContext();
+    const master = context.createGain();
+    master.gain.value = this.masterVolume;
+    const destination = context.createMediaStreamDestination();
+    master.connect(destination);
+
+    const output = new Audio();
+    output.srcObject = destination.stream;
+    if (this.outputDeviceId) {
+      void output.setSinkId(this.outputDeviceId).catch(() => undefined);
+    }
+    void output.play().catch(() => undefined);
+
+    this.context = context;
+    this.master = master;
+    this.output = output;
+    return context;
+  }
+
+  private applyAllMixes(): void {
+    for (const peerId of this.channels.keys()) {
+      this.applyMix(peerId);
+    }
+  }
+
+  private applyMix(peerId: string): void {
+    const channel = this.channels.get(peerId);
+    if (!channel || !this.context) {
+      return;
+    }
+    const remote = this.participants.find((participant) => participant.socketId === peerId);
+    // Streams can arrive before the participant list that describes them.
+    const mix = remote
+      ? computeSpatialMix(this.local, remote, this.settings)
+      : { gain: 1, pan: 0 };
+    const preference = (remote && this.preferences[remote.userId]) || DEFAULT_AUDIO_PREFERENCE;
+    const routed = !remote || canHear(this.local, remote);
+    const now = this.context.currentTime;
+    channel.userGain.gain.setTargetAtTime(
+      routed && !preference.mutedForMe ? preference.volume : 0,
+      now,
+      SMOOTHING_SECONDS
+    );
+    channel.spatialGain.gain.setTargetAtTime(mix.gain, now, SMOOTHING_SECONDS);
+    channel.panner.pan.setTargetAtTime(mix.pan, now, SMOOTHING_SECONDS);
+  }
+}
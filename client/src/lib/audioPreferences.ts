@@ -0,0 +1,47 @@
+import type { ParticipantAudioPreference } from "../types/voice";
+
+const STORAGE_KEY = "voice.participantAudio";
+
+export const DEFAULT_AUDIO_PREFERENCE: ParticipantAudioPreference = {
+  volume: 1,
+  mutedForMe: false,
+};
+
+function isPreference(value: unknown): value is ParticipantAudioPreference {
+  const preference = value as Partial<ParticipantAudioPreference> | null;
+  return (
+    typeof preference?.volume === "number" &&
+    preference.volume >= 0 &&
+    preference.volume <= 2 &&
+    typeof preference.mutedForMe === "boolean"
+  );
+}
+
+/** Per-user volume and local mute, keyed by `userId` so they survive new sessions. */
+export function loadAudioPreferences(): Record<string, ParticipantAudioPreference> {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    if (!stored || typeof stored !== "object") {
+      return {};
+    }
+    return Object.fromEntries(Object.entries(stored).filter(([, value]) => isPreference(value)));
+  } catch {
+    return {};
+  }
+}
+
+export function saveAudioPreferences(
+  preferences: Record<string, ParticipantAudioPreference>
+): void {
+  // Users left at the defaults are not worth keeping around.
+  const customized = Object.entries(preferences).filter(
+    ([, preference]) =>
+      preference.volume !== DEFAULT_AUDIO_PREFERENCE.volume ||
+      preference.mutedForMe !== DEFAULT_AUDIO_PREFERENCE.mutedForMe
+  );
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(customized)));
+  } catch {
+    // Storage can be full or disabled (private browsing); preferences then last for the session.
+  }
+}
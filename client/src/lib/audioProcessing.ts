@@ -0,0 +1,187 @@
+import type { AudioProcessingSettings } from "../types/voice";
+import { measureLevel } from "./voiceActivity";
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingSettings = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  highPassEnabled: true,
+  highPassFrequency: 80,
+  noiseGateEnabled: false,
+  noiseGateThreshold: 0.2,
+  compressorEnabled: true,
+  inputGain: 1,
+};
+
+const GATE_POLL_INTERVAL_MS = 20;
+// Keeps the gate open briefly after the level drops so word endings survive.
+const GATE_HOLD_MS = 150;
+const GATE_ATTACK_SECONDS = 0.005;
+const GATE_RELEASE_SECONDS = 0.05;
+const GAIN_SMOOTHING_SECONDS = 0.02;
+// A disabled stage keeps its place in the graph with neutral parameters, so
+// toggling it never rewires the stream that is being sent.
+const BYPASS_HIGH_PASS_HZ = 10;
+
+/** True when switching between the two settings needs a new `getUserMedia` capture. */
+export function captureConstraintsChanged(
+  previous: AudioProcessingSettings,
+  next: AudioProcessingSettings
+): boolean {
+  return (
+    previous.echoCancellation !== next.echoCancellation ||
+    previous.noiseSuppression !== next.noiseSuppression ||
+    previous.autoGainControl !== next.autoGainControl
+  );
+}
+
+/**
+ * Web Audio chain between the microphone and the sent track:
+ * mic -> high-pass -> noise gate -> compressor -> input gain -> `stream`.
+ * The output track stays the same when the microphone is swapped, so peer
+ * connections never need to be touched.
+ */
+export class MicProcessor {
+  private readonly context = new AudioContext();
+
+  private readonly highPass: BiquadFilterNode;
+
+  private readonly gateAnalyser: AnalyserNode;
+
+  private readonly gate: GainNode;
+
+  private readonly compressor: DynamicsCompressorNode;
+
+  private readonly inputGain: GainNode;
+
+  private readonly destination: MediaStreamAudioDestinationNode;
+
+  private readonly samples: Float32Array<ArrayBuffer>;
+
+  private source: MediaStreamAudioSourceNode | null = null;
+
+  private settings: AudioProcessingSettings;
+
+  private gateTimer: ReturnType<typeof setInterval> | null = null;
+
+  private gateOpen = true;
+
+  private lastAboveThresholdAt = Number.NEGATIVE_INFINITY;
+
+  constructor(settings: AudioProcessingSettings) {
+    this.settings = settings;
+    const context = this.context;
+
+    this.highPass = context.createBiquadFilter();
+    this.highPass.type = "highpass";
+    this.highPass.Q.value = Math.SQRT1_2;
+    this.gateAnalyser = context.createAnalyser();
+    this.gateAnalyser.fftSize = 512;
+    this.samples = new Float32Array(this.gateAnalyser.fftSize);
+    this.gate = context.createGain();
+    this.compressor = context.createDynamicsCompressor();
+    this.inputGain = context.createGain();
+    this.destination = context.createMediaStreamDestination();
+
+    this.highPass
+      .connect(this.gate)
+      .connect(this.compressor)
+      .connect(this.inputGain)
+      .connect(this.destination);
+    // The gate listens after the high-pass so rumble cannot hold it open.
+    this.highPass.connect(this.gateAnalyser);
+
+    this.applySettings();
+    if (context.state === "suspended") {
+      void context.resume().catch(() => undefined);
+    }
+  }
+
+  /** The processed audio to send. */
+  get stream(): MediaStream {
+    return this.destination.stream;
+  }
+
+  setInput(mic: MediaStream): void {
+    this.source?.disconnect();
+    this.source = this.context.createMediaStreamSource(mic);
+    this.source.connect(this.highPass);
+  }
+
+  setSettings(settings: AudioProcessingSettings): void {
+    this.settings = settings;
+    this.applySettings();
+  }
+
+  close(): void {
+    this.stopGate();
+    this.source?.disconnect();
+    this.source = null;
+    this.destination.stream.getTracks().forEach((track) => track.stop());
+    void this.context.close().catch(() => undefined);
+  }
+
+  private applySettings(): void {
+    const now = this.context.currentTime;
+    const settings = this.settings;
+
+    this.highPass.frequency.setValueAtTime(
+      settings.highPassEnabled ? settings.highPassFrequency : BYPASS_HIGH_PASS_HZ,
+      now
+    );
+
+    if (settings.compressorEnabled) {
+      this.compressor.threshold.setValueAtTime(-24, now);
+      this.compressor.knee.setValueAtTime(30, now);
+      this.compressor.ratio.setValueAtTime(4, now);
+      this.compressor.attack.setValueAtTime(0.003, now);
+      this.compressor.release.setValueAtTime(0.25, now);
+    } else {
+      this.compressor.threshold.setValueAtTime(0, now);
+      this.compressor.knee.setValueAtTime(0, now);
+      this.compressor.ratio.setValueAtTime(1, now);
+    }
+
+    this.inputGain.gain.setTargetAtTime(settings.inputGain, now, GAIN_SMOOTHING_SECONDS);
+
+    if (settings.noiseGateEnabled) {
+      this.startGate();
+    } else {
+      this.stopGate();
+      this.setGateOpen(true);
+    }
+  }
+
+  private startGate(): void {
+    if (!this.gateTimer) {
+      this.gateTimer = setInterval(() => this.pollGate(), GATE_POLL_INTERVAL_MS);
+    }
+  }
+
+  private stopGate(): void {
+    if (this.gateTimer) {
+      clearInterval(this.gateTimer);
+      this.gateTimer = null;
+    }
+  }
+
+  private pollGate(): void {
+    const now = performance.now();
+    if (measureLevel(this.gateAnalyser, this.samples) >= this.settings.noiseGateThreshold) {
+      this.lastAboveThresholdAt = now;
+    }
+    this.setGateOpen(now - this.lastAboveThresholdAt < GATE_HOLD_MS);
+  }
+
+  private setGateOpen(open: boolean): void {
+    if (open === this.gateOpen) {
+      return;
+    }
+    this.gateOpen = open;
+    this.gate.gain.setTargetAtTime(
+      open ? 1 : 0,
+      this.context.currentTime,
+      open ? GATE_ATTACK_SECONDS : GATE_RELEASE_SECONDS
+    );
+  }
+}
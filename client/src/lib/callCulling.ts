@@ -0,0 +1,69 @@
+import type { CallCullingSettings, Participant } from "../types/voice";
+import { DEFAULT_PROXIMITY_SETTINGS, distanceBetween } from "./proximity";
+
+export const DEFAULT_CALL_CULLING: CallCullingSettings = {
+  enabled: true,
+  hearingRadius: DEFAULT_PROXIMITY_SETTINGS.maxDistance,
+  nearestCount: 4,
+  hysteresis: 10,
+  maxCalls: 24,
+};
+
+/** How long an unanswered call or offer is given before it is dropped. */
+export const CALL_ANSWER_TIMEOUT_MS = 10000;
+
+/** Wait before calling a peer again after a call to them went unanswered. */
+export const CALL_RETRY_DELAY_MS = 15000;
+
+/**
+ * Same rule as `computeSpatialMix`: a pair where either side is out of game
+ * (or has no position) hears each other at full volume, so it ranks as closest.
+ */
+function callDistance(self: Participant, remote: Participant): number {
+  if (!self.inGame || !self.position || !remote.inGame || !remote.position) {
+    return 0;
+  }
+  return distanceBetween(self.position, remote.position);
+}
+
+/**
+ * Picks the participants `selfId` should have calls with: everyone within the
+ * hearing radius plus the `nearestCount` nearest, closest first, cut off at
+ * `maxCalls`. Peers in `connected` rank `hysteresis` studs closer than they
+ * are, so someone hovering at a cutoff does not flap between calls.
+ *
+ * Both ends run this on the same participant list, so with matching settings
+ * they nearly always agree. When they do not, the end that declines leaves the
+ * call unanswered and the caller backs off for `CALL_RETRY_DELAY_MS`.
+ */
+export function selectCallPeers(
+  selfId: string,
+  participants: Participant[],
+  connected: ReadonlySet<string>,
+  settings: CallCullingSettings
+): Set<string> {
+  const self = participants.find((participant) => participant.socketId === selfId);
+  const ranked = participants
+    .filter((participant) => participant.socketId !== selfId)
+    .map((participant) => {
+      const distance = self && settings.enabled ? callDistance(self, participant) : 0;
+      return {
+        peerId: participant.socketId,
+        distance: connected.has(participant.socketId) ? distance - settings.hysteresis : distance,
+      };
+    })
+    // Ties break on id so both ends of a pair rank the same way.
+    .sort((a, b) => a.distance - b.distance || a.peerId.localeCompare(b.peerId));
+
+  return new Set(
+    ranked
+      .filter(
+        (entry, index) =>
+          !settings.enabled ||
+          index < settings.nearestCount ||
+          entry.distance <= settings.hearingRadius
+      )
+      .slice(0, settings.maxCalls)
+      .map((entry) => entry.peerId)
+  );
+}
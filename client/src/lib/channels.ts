@@ -0,0 +1,25 @@
+import type { Participant } from "../types/voice";
+
+export const TEAM_NAME_MAX_LENGTH = 32;
+
+/** Trims free-form input into a team name the signaling server accepts; empty means none. */
+export function normalizeTeamName(raw: string): string {
+  return raw
+    .trim()
+    .replace(/[^A-Za-z0-9 _-]+/g, "")
+    .replace(/^[ _-]+/, "")
+    .slice(0, TEAM_NAME_MAX_LENGTH)
+    .trim();
+}
+
+/**
+ * Whether `listener` should hear `speaker`. A whisper reaches only its
+ * targets; otherwise people hear their own team, and those without a team
+ * hear each other. Every client runs this on its incoming streams.
+ */
+export function canHear(listener: Participant | undefined, speaker: Participant): boolean {
+  if (speaker.whisperTargets && speaker.whisperTargets.length > 0) {
+    return listener !== undefined && speaker.whisperTargets.includes(listener.socketId);
+  }
+  return (listener?.team ?? "") === (speaker.team ?? "");
+}
@@ -0,0 +1,37 @@
+import type { ChatMessage } from "../types/voice";
+
+// Match the signaling server's limits so both transports behave the same.
+export const CHAT_MAX_LENGTH = 500;
+export const CHAT_HISTORY_LIMIT = 100;
+const CHAT_RATE_LIMIT = 5;
+const CHAT_RATE_WINDOW_MS = 5 * 1000;
+
+/** Trimmed message text, or null when it is empty or too long. */
+export function normalizeChatText(raw: unknown): string | null {
+  const text = typeof raw === "string" ? raw.trim() : "";
+  return text && text.length <= CHAT_MAX_LENGTH ? text : null;
+}
+
+/** Appends to a history, dropping the oldest messages past the limit. */
+export function appendChatMessage(history: ChatMessage[], message: ChatMessage): ChatMessage[] {
+  return [...history, message].slice(-CHAT_HISTORY_LIMIT);
+}
+
+/**
+ * Fixed-window counter per user, used by a browser room host the same way the
+ * signaling server limits `chat-send`.
+ */
+export class ChatRateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  take(userId: string): boolean {
+    const now = Date.now();
+    const window = this.windows.get(userId);
+    if (!window || window.resetAt <= now) {
+      this.windows.set(userId, { count: 1, resetAt: now + CHAT_RATE_WINDOW_MS });
+      return true;
+    }
+    window.count += 1;
+    return window.count <= CHAT_RATE_LIMIT;
+  }
+}
@@ -0,0 +1,170 @@
+import type {
+  ConnectionQuality,
+  ConnectionStats,
+  IceCandidateType,
+} from "../types/voice";
+
+// Counters from the previous sample; rates and loss are deltas between two samples.
+type StatsSample = {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+};
+
+type StatsEntry = {
+  type: string;
+  id: string;
+  timestamp: number;
+  [key: string]: unknown;
+};
+
+const POLL_INTERVAL_MS = 2000;
+const CANDIDATE_TYPES: IceCandidateType[] = ["host", "srflx", "prflx", "relay"];
+
+function numberField(entry: StatsEntry | undefined, key: string): number | undefined {
+  const value = entry?.[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+function candidateType(entry: StatsEntry | undefined): IceCandidateType | undefined {
+  const value = entry?.candidateType;
+  return CANDIDATE_TYPES.includes(value as IceCandidateType)
+    ? (value as IceCandidateType)
+    : undefined;
+}
+
+/** Rough thresholds for interactive voice, in line with common VoIP guidance. */
+function rateQuality(stats: Omit<ConnectionStats, "quality">): ConnectionQuality {
+  const { rttMs, jitterMs, packetLossPercent } = stats;
+  if (rttMs === undefined && jitterMs === undefined && packetLossPercent === undefined) {
+    return "unknown";
+  }
+  if ((rttMs ?? 0) > 400 || (jitterMs ?? 0) > 50 || (packetLossPercent ?? 0) > 5) {
+    return "poor";
+  }
+  if ((rttMs ?? 0) > 200 || (jitterMs ?? 0) > 30 || (packetLossPercent ?? 0) > 1) {
+    return "fair";
+  }
+  return "good";
+}
+
+function findSelectedPair(entries: StatsEntry[]): StatsEntry | undefined {
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  for (const entry of entries) {
+    if (entry.type === "transport" && typeof entry.selectedCandidatePairId === "string") {
+      return byId.get(entry.selectedCandidatePairId);
+    }
+  }
+  // Firefox has no transport stats; it flags the pair instead.
+  return entries.find(
+    (entry) => entry.type === "candidate-pair" && (entry.selected === true || entry.nominated === true)
+  );
+}
+
+/**
+ * Samples `getStats()` for every live peer connection and reports RTT, jitter,
+ * loss, bitrate and the selected ICE candidate pair per remote participant.
+ */
+export class ConnectionStatsMonitor {
+  private readonly getConnections: () => Map<string, RTCPeerConnection>;
+
+  private readonly onStats: (peerId: string, stats: ConnectionStats) => void;
+
+  private samples = new Map<string, StatsSample>();
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    getConnections: () => Map<string, RTCPeerConnection>,
+    onStats: (peerId: string, stats: ConnectionStats) => void
+  ) {
+    this.getConnections = getConnections;
+    this.onStats = onStats;
+  }
+
+  start(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.samples.clear();
+  }
+
+  private async poll(): Promise<void> {
+    const connections = this.getConnections();
+    for (const peerId of Array.from(this.samples.keys())) {
+      if (!connections.has(peerId)) {
+        this.samples.delete(peerId);
+      }
+    }
+
+    await Promise.all(
+      Array.from(connections.entries(), async ([peerId, connection]) => {
+        try {
+          const report = await connection.getStats();
+          if (this.timer) {
+            this.onStats(peerId, this.summarize(peerId, report));
+          }
+        } catch {
+          // Closed between listing and sampling; it drops out on the next poll.
+        }
+      })
+    );
+  }
+
+  private summarize(peerId: string, report: RTCStatsReport): ConnectionStats {
+    const entries = Array.from(report.values()) as StatsEntry[];
+    const byId = new Map(entries.map((entry) => [entry.id, entry]));
+    const pair = findSelectedPair(entries);
+    const inbound = entries.filter((entry) => entry.type === "inbound-rtp" && entry.kind === "audio");
+    const outbound = entries.filter(
+      (entry) => entry.type === "outbound-rtp" && entry.kind === "audio"
+    );
+    const remoteInbound = entries.find(
+      (entry) => entry.type === "remote-inbound-rtp" && entry.kind === "audio"
+    );
+
+    const sum = (list: StatsEntry[], key: string) =>
+      list.reduce((total, entry) => total + (numberField(entry, key) ?? 0), 0);
+    const sample: StatsSample = {
+      timestamp: pair?.timestamp ?? inbound[0]?.timestamp ?? performance.now(),
+      bytesReceived: sum(inbound, "bytesReceived"),
+      bytesSent: sum(outbound, "bytesSent"),
+      packetsReceived: sum(inbound, "packetsReceived"),
+      packetsLost: sum(inbound, "packetsLost"),
+    };
+    const previous = this.samples.get(peerId);
+    this.samples.set(peerId, sample);
+
+    const rttSeconds =
+      numberField(pair, "currentRoundTripTime") ?? numberField(remoteInbound, "roundTripTime");
+    const jitterSeconds = numberField(inbound[0], "jitter");
+    const stats: Omit<ConnectionStats, "quality"> = {
+      rttMs: rttSeconds === undefined ? undefined : rttSeconds * 1000,
+      jitterMs: jitterSeconds === undefined ? undefined : jitterSeconds * 1000,
+      localCandidateType: candidateType(byId.get(String(pair?.localCandidateId))),
+      remoteCandidateType: candidateType(byId.get(String(pair?.remoteCandidateId))),
+    };
+
+    const elapsedSeconds = previous ? (sample.timestamp - previous.timestamp) / 1000 : 0;
+    if (previous && elapsedSeconds > 0) {
+      stats.inboundKbps = ((sample.bytesReceived - previous.bytesReceived) * 8) / 1000 / elapsedSeconds;
+      stats.outboundKbps = ((sample.bytesSent - previous.bytesSent) * 8) / 1000 / elapsedSeconds;
+      const received = sample.packetsReceived - previous.packetsReceived;
+      const lost = Math.max(0, sample.packetsLost - previous.packetsLost);
+      if (received + lost > 0) {
+        stats.packetLossPercent = (lost / (received + lost)) * 100;
+      }
+    }
+
+    return { ...stats, quality: rateQuality(stats) };
+  }
+}
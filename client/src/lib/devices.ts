@@ -0,0 +1,25 @@
+export type AudioDevices = {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+};
+
+/** Labels stay empty until the page has been granted microphone access once. */
+export async function listAudioDevices(): Promise<AudioDevices> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return { inputs: [], outputs: [] };
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter((device) => device.kind === "audioinput"),
+    outputs: devices.filter((device) => device.kind === "audiooutput"),
+  };
+}
+
+/** Output selection needs `setSinkId`, which Safari does not implement. */
+export function supportsOutputSelection(): boolean {
+  return typeof HTMLMediaElement !== "undefined" && "setSinkId" in HTMLMediaElement.prototype;
+}
+
+export function deviceLabel(device: MediaDeviceInfo, index: number): string {
+  return device.label || `${device.kind === "audioinput" ? "Microphone" : "Speaker"} ${index + 1}`;
+}
@@ -0,0 +1,1067 @@
+import Peer, { type DataConnection, type MediaConnection, type PeerOptions } from "peerjs";
+import {
+  PROTOCOL_MISMATCH_MESSAGE,
+  PROTOCOL_VERSION,
+  type HostMessage,
+} from "../../../shared/protocol";
+import type { CallCullingSettings, ChatMessage, Participant } from "../types/voice";
+import {
+  CALL_ANSWER_TIMEOUT_MS,
+  CALL_RETRY_DELAY_MS,
+  DEFAULT_CALL_CULLING,
+  selectCallPeers,
+} from "./callCulling";
+import { CHAT_MAX_LENGTH, ChatRateLimiter, appendChatMessage, normalizeChatText } from "./chat";
+import type {
+  PeerServerOptions,
+  SignalingTransport,
+  TransportEvents,
+  TransportSession,
+} from "./voiceClient";
+
+const HOST_CONNECT_TIMEOUT_MS = 5000;
+const HOST_MIGRATION_ATTEMPTS = 5;
+const HOST_MIGRATION_RETRY_MS = 1000;
+const HOST_REATTACH_GRACE_MS = 10000;
+const MAX_WHISPER_TARGETS = 8;
+
+function toHostPeerId(roomId: string): string {
+  return `room-${roomId}`;
+}
+
+/**
+ * Picks the next room host from the surviving participants. Every peer runs
+ * this on the same participant list, so they agree without extra messages;
+ * ordering matches the caller/callee tie-break in `reconcileCalls`.
+ */
+function electHostSuccessor(participantIds: string[], excluded: Set<string>): string | null {
+  const candidates = participantIds
+    .filter((peerId) => !excluded.has(peerId))
+    .sort((a, b) => a.localeCompare(b));
+  return candidates[0] ?? null;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Re-establishes a peer's broker connection under the same id. */
+function reopenPeer(peer: Peer, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const finish = (reopened: boolean) => {
+      clearTimeout(timeout);
+      peer.off("open", handleOpen);
+      peer.off("error", handleError);
+      resolve(reopened);
+    };
+    const handleOpen = () => finish(true);
+    const handleError = () => finish(false);
+    const timeout = setTimeout(() => finish(false), timeoutMs);
+    peer.on("open", handleOpen);
+    peer.on("error", handleError);
+    try {
+      peer.reconnect();
+    } catch {
+      finish(false);
+    }
+  });
+}
+
+export class PeerJsTransport implements SignalingTransport {
+  private readonly events: TransportEvents;
+
+  private readonly peerOptions: Partial<PeerOptions>;
+
+  private peer: Peer | null = null;
+
+  // Holds the room host id. Same object as `peer` for the original host, a
+  // separate control-only peer when this client took over via migration.
+  private hostPeer: Peer | null = null;
+
+  private localStream: MediaStream | null = null;
+
+  private calls = new Map<string, MediaConnection>();
+
+  // Outgoing calls with no stream yet; a callee that culled us never answers.
+  private unansweredCalls = new Map<string, ReturnType<typeof setTimeout>>();
+
+  // Epoch ms before which an unanswered peer is not called again.
+  private callRetryAt = new Map<string, number>();
+
+  private callCulling: CallCullingSettings = DEFAULT_CALL_CULLING;
+
+  private hostConnections = new Map<string, DataConnection>();
+
+  private hostControlConnection: DataConnection | null = null;
+
+  private selfPeerId: string | null = null;
+
+  private roomId: string | null = null;
+
+  private userId: string | null = null;
+
+  private muted = false;
+
+  private transmitting = false;
+
+  private team: string | null = null;
+
+  private whisperTargets: string[] = [];
+
+  private isHost = false;
+
+  private hostParticipantId: string | null = null;
+
+  private migrating = false;
+
+  private reattachTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private remoteStreams = new Map<string, MediaStream>();
+
+  private participants = new Map<string, Participant>();
+
+  // Every client keeps the full history, so a migrated host can keep serving it.
+  private chatMessages: ChatMessage[] = [];
+
+  private readonly chatLimiter = new ChatRateLimiter();
+
+  constructor(events: TransportEvents, peerServer?: PeerServerOptions) {
+    this.events = events;
+    // Unset fields must stay absent so PeerJS keeps its own defaults; without
+    // a host it falls back to the public cloud broker.
+    const configured = Object.fromEntries(
+      Object.entries(peerServer ?? {}).filter(([, value]) => value !== undefined)
+    );
+    this.peerOptions = { debug: 0, ...configured };
+  }
+
+  async connect(session: TransportSession): Promise<boolean> {
+    if (this.peer) {
+      return false;
+    }
+    this.roomId = session.roomId;
+    this.userId = session.userId;
+    this.localStream = session.localStream;
+    this.callCulling = session.callCulling;
+    this.peerOptions.config = { iceServers: session.iceServers };
+
+    let becameHost = await this.tryBecomeHost(this.userId);
+    if (!becameHost) {
+      const joined = await this.joinAsClient(this.userId);
+      if (!joined) {
+        // Retry host claim once in case first election raced.
+        becameHost = await this.tryBecomeHost(this.userId);
+      }
+    }
+
+    if (becameHost || this.hostControlConnection) {
+      return true;
+    }
+
+    this.disconnect();
+    return false;
+  }
+
+  disconnect(): void {
+    if (!this.isHost && this.hostControlConnection?.open && this.selfPeerId) {
+      this.hostControlConnection.send({
+        type: "leave-request",
+        peerId: this.selfPeerId,
+      } satisfies HostMessage);
+    }
+
+    if (this.isHost) {
+      for (const conn of this.hostConnections.values()) {
+        if (conn.open) {
+          conn.send({ type: "host-closing" } satisfies HostMessage);
+        }
+        conn.close();
+      }
+    }
+
+    if (this.reattachTimer) {
+      clearTimeout(this.reattachTimer);
+      this.reattachTimer = null;
+    }
+
+    this.hostControlConnection?.close();
+    this.hostControlConnection = null;
+    this.hostConnections.clear();
+    if (this.hostPeer && this.hostPeer !== this.peer) {
+      this.hostPeer.destroy();
+    }
+    this.hostPeer = null;
+    this.peer?.destroy();
+    this.peer = null;
+    this.selfPeerId = null;
+    this.roomId = null;
+    this.userId = null;
+    this.muted = false;
+    this.transmitting = false;
+    this.team = null;
+    this.whisperTargets = [];
+    this.isHost = false;
+    this.hostParticipantId = null;
+    this.migrating = false;
+    this.cleanupCalls();
+    this.callRetryAt.clear();
+    this.localStream = null;
+    this.participants.clear();
+    this.chatMessages = [];
+  }
+
+  getSelfId(): string | null {
+    return this.selfPeerId;
+  }
+
+  setTeam(team: string | null): void {
+    this.team = team;
+    this.sendChannelUpdate();
+  }
+
+  setWhisperTargets(targets: string[]): void {
+    this.whisperTargets = targets;
+    this.sendChannelUpdate();
+  }
+
+  sendChatMessage(text: string): void {
+    if (this.isHost && this.selfPeerId) {
+      const rejection = this.acceptChatMessage(this.selfPeerId, text);
+      if (rejection) {
+        this.events.onError(rejection);
+      }
+      return;
+    }
+    if (this.hostControlConnection?.open) {
+      this.hostControlConnection.send({ type: "chat-send", text } satisfies HostMessage);
+    }
+  }
+
+  setIceServers(iceServers: RTCIceServer[]): void {
+    // PeerJS reads `options.config` whenever it opens a connection, so
+    // updating it in place covers peers that already exist.
+    this.peerOptions.config = { iceServers };
+    for (const peer of [this.peer, this.hostPeer]) {
+      if (peer) {
+        peer.options.config = { iceServers };
+      }
+    }
+    for (const call of this.calls.values()) {
+      call.peerConnection?.setConfiguration({
+        ...call.peerConnection.getConfiguration(),
+        iceServers,
+      });
+    }
+  }
+
+  setCallCulling(settings: CallCullingSettings): void {
+    this.callCulling = settings;
+    this.reconcileCalls(Array.from(this.participants.values()));
+  }
+
+  getPeerConnections(): Map<string, RTCPeerConnection> {
+    const connections = new Map<string, RTCPeerConnection>();
+    this.calls.forEach((call, peerId) => {
+      if (call.peerConnection) {
+        connections.set(peerId, call.peerConnection);
+      }
+    });
+    return connections;
+  }
+
+  /**
+   * Reconnects to the broker after a network drop. Calls that survived keep
+   * running; if the host went away meanwhile, rejoin or take over the room.
+   */
+  async resume(): Promise<boolean> {
+    const peer = this.peer;
+    const userId = this.userId;
+    if (!peer || peer.destroyed || !userId) {
+      return false;
+    }
+    if (peer.disconnected && !(await reopenPeer(peer, HOST_CONNECT_TIMEOUT_MS))) {
+      return false;
+    }
+    const hostPeer = this.hostPeer;
+    if (
+      hostPeer &&
+      hostPeer !== peer &&
+      hostPeer.disconnected &&
+      !(await reopenPeer(hostPeer, HOST_CONNECT_TIMEOUT_MS))
+    ) {
+      return false;
+    }
+    if (this.peer !== peer) {
+      return false;
+    }
+    if (this.isHost || this.hostControlConnection?.open || this.migrating) {
+      return true;
+    }
+    return (
+      (await this.attachToHost(userId, HOST_CONNECT_TIMEOUT_MS)) || (await this.claimHostRole())
+    );
+  }
+
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    if (!this.selfPeerId) {
+      return;
+    }
+
+    if (this.isHost) {
+      const self = this.participants.get(this.selfPeerId);
+      if (self) {
+        self.muted = muted;
+        this.broadcastParticipantList();
+      }
+      return;
+    }
+
+    if (this.hostControlConnection?.open) {
+      this.hostControlConnection.send({
+        type: "mute-update",
+        peerId: this.selfPeerId,
+        muted,
+      } satisfies HostMessage);
+    }
+  }
+
+  setTransmitting(transmitting: boolean): void {
+    this.transmitting = transmitting;
+    if (!this.selfPeerId) {
+      return;
+    }
+
+    if (this.isHost) {
+      const self = this.participants.get(this.selfPeerId);
+      if (self) {
+        self.transmitting = transmitting;
+        this.broadcastParticipantList();
+      }
+      return;
+    }
+
+    if (this.hostControlConnection?.open) {
+      this.hostControlConnection.send({
+        type: "transmit-update",
+        peerId: this.selfPeerId,
+        transmitting,
+      } satisfies HostMessage);
+    }
+  }
+
+  private sendChannelUpdate(): void {
+    if (!this.selfPeerId) {
+      return;
+    }
+    const update: HostMessage = {
+      type: "channel-update",
+      peerId: this.selfPeerId,
+      team: this.team ?? undefined,
+      whisperTargets: this.whisperTargets,
+    };
+
+    if (this.isHost) {
+      this.applyChannelUpdate({
+        ...update,
+        whisperTargets: this.knownWhisperTargets(this.selfPeerId, update.whisperTargets),
+      });
+      return;
+    }
+
+    if (this.hostControlConnection?.open) {
+      this.hostControlConnection.send(update);
+    }
+  }
+
+  private async tryBecomeHost(userId: string): Promise<boolean> {
+    const hostPeer = await this.openHostPeer();
+    if (!hostPeer) {
+      return false;
+    }
+
+    const peerId = hostPeer.id;
+    this.peer = hostPeer;
+    this.hostPeer = hostPeer;
+    this.selfPeerId = peerId;
+    this.isHost = true;
+    this.hostParticipantId = peerId;
+    this.setupCommonPeerHandlers(hostPeer);
+    this.setupHostHandlers(hostPeer);
+    this.participants.set(peerId, {
+      socketId: peerId,
+      userId,
+      muted: false,
+      transmitting: this.transmitting,
+    });
+    this.broadcastParticipantList();
+    return true;
+  }
+
+  private async openHostPeer(): Promise<Peer | null> {
+    const roomId = this.roomId;
+    if (!roomId) {
+      return null;
+    }
+    return new Promise((resolve) => {
+      const hostPeer = new Peer(toHostPeerId(roomId), this.peerOptions);
+      let settled = false;
+      const timeout = setTimeout(() => {
+        if (settled) {
+          return;
+        }
+        hostPeer.destroy();
+        finish(null);
+      }, 3000);
+
+      const finish = (peer: Peer | null): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeout);
+        resolve(peer);
+      };
+
+      hostPeer.on("open", () => finish(hostPeer));
+
+      // Any error before "open" (typically "unavailable-id") means someone
+      // else already holds the room host id.
+      hostPeer.on("error", () => {
+        if (settled) {
+          return;
+        }
+        hostPeer.destroy();
+        finish(null);
+      });
+    });
+  }
+
+  private async joinAsClient(userId: string): Promise<boolean> {
+    const roomId = this.roomId;
+    if (!roomId) {
+      return false;
+    }
+    this.peer = new Peer(this.peerOptions);
+    const peer = this.peer;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error("PEER_OPEN_TIMEOUT")), 5000);
+        // Only the first open; later ones come from reconnect().
+        peer.once("open", (peerId) => {
+          clearTimeout(timeout);
+          this.selfPeerId = peerId;
+          this.setupCommonPeerHandlers(peer);
+          resolve();
+        });
+        peer.on("error", () => {
+          clearTimeout(timeout);
+          reject(new Error("PEER_OPEN_FAILED"));
+        });
+      });
+    } catch {
+      peer.destroy();
+      this.peer = null;
+      return false;
+    }
+
+    if (!this.selfPeerId || !(await this.attachToHost(userId, HOST_CONNECT_TIMEOUT_MS))) {
+      peer.destroy();
+      this.peer = null;
+      this.selfPeerId = null;
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Opens the control connection from the existing media peer to whoever
+   * currently holds the room host id and registers this client with it.
+   */
+  private async attachToHost(userId: string, timeoutMs: number): Promise<boolean> {
+    const peer = this.peer;
+    const selfPeerId = this.selfPeerId;
+    const roomId = this.roomId;
+    if (!peer || !selfPeerId || !roomId) {
+      return false;
+    }
+
+    const control = peer.connect(toHostPeerId(roomId), { reliable: true });
+    this.hostControlConnection = control;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error("HOST_CONNECT_TIMEOUT")), timeoutMs);
+        control.on("open", () => {
+          clearTimeout(timeout);
+          control.send({
+            type: "join-request",
+            protocolVersion: PROTOCOL_VERSION,
+            peerId: selfPeerId,
+            userId,
+            muted: this.muted,
+            transmitting: this.transmitting,
+            team: this.team ?? undefined,
+            whisperTargets: this.whisperTargets,
+          } satisfies HostMessage);
+          resolve();
+        });
+        control.on("error", () => {
+          clearTimeout(timeout);
+          reject(new Error("HOST_CONNECT_FAILED"));
+        });
+      });
+    } catch {
+      control.close();
+      if (this.hostControlConnection === control) {
+        this.hostControlConnection = null;
+      }
+      return false;
+    }
+
+    control.on("close", () => {
+      if (this.hostControlConnection !== control) {
+        return;
+      }
+      this.hostControlConnection = null;
+      this.handleHostLost();
+    });
+    control.on("data", (raw) => this.handleHostMessage(raw as HostMessage));
+    return true;
+  }
+
+  /**
+   * Called on every surviving client when the host leaves. Media connections
+   * are left untouched; only the control plane is re-established.
+   */
+  private handleHostLost(): void {
+    if (this.migrating || !this.peer || !this.selfPeerId) {
+      return;
+    }
+
+    const excluded = new Set<string>();
+    const departedHostId = this.hostParticipantId;
+    if (departedHostId) {
+      excluded.add(departedHostId);
+      this.removeParticipant(departedHostId);
+      this.events.onParticipants(Array.from(this.participants.values()));
+    }
+    this.hostParticipantId = null;
+    void this.migrateHost(excluded);
+  }
+
+  private async migrateHost(excluded: Set<string>): Promise<void> {
+    const peer = this.peer;
+    const userId = this.userId;
+    if (!peer || !userId) {
+      return;
+    }
+    this.migrating = true;
+    const stillCurrent = () => this.peer === peer;
+
+    try {
+      while (stillCurrent()) {
+        const successor = electHostSuccessor(Array.from(this.participants.keys()), excluded);
+        if (!successor) {
+          break;
+        }
+
+        if (successor === this.selfPeerId) {
+          if (await this.claimHostRole()) {
+            return;
+          }
+          // Someone else grabbed the host id first (e.g. a fresh joiner);
+          // fall through and attach to them instead.
+        }
+
+        if (await this.reattachToHost(userId, stillCurrent)) {
+          return;
+        }
+        if (successor === this.selfPeerId) {
+          break;
+        }
+        excluded.add(successor);
+        this.removeParticipant(successor);
+        this.events.onParticipants(Array.from(this.participants.values()));
+      }
+    } finally {
+      this.migrating = false;
+    }
+
+    if (stillCurrent() && peer.disconnected) {
+      // Our own network dropped, not the host's; resume() rejoins the room.
+      this.events.onConnectionLost();
+      return;
+    }
+    if (stillCurrent()) {
+      this.events.onError("Room host left and no successor could take over.");
+      this.disconnect();
+      this.events.onClosed();
+    }
+  }
+
+  private async claimHostRole(): Promise<boolean> {
+    const peer = this.peer;
+    const selfPeerId = this.selfPeerId;
+    for (let attempt = 0; attempt < HOST_MIGRATION_ATTEMPTS; attempt += 1) {
+      // The broker may not have released the old host id yet.
+      const hostPeer = await this.openHostPeer();
+      if (this.peer !== peer || !selfPeerId) {
+        hostPeer?.destroy();
+        return false;
+      }
+      if (hostPeer) {
+        this.hostPeer = hostPeer;
+        this.isHost = true;
+        this.hostParticipantId = selfPeerId;
+        this.setupHostHandlers(hostPeer);
+        this.broadcastParticipantList();
+        this.scheduleReattachSweep();
+        return true;
+      }
+      await delay(HOST_MIGRATION_RETRY_MS);
+    }
+    return false;
+  }
+
+  private async reattachToHost(userId: string, stillCurrent: () => boolean): Promise<boolean> {
+    for (let attempt = 0; attempt < HOST_MIGRATION_ATTEMPTS; attempt += 1) {
+      // Give the successor a head start on claiming the host id.
+      await delay(HOST_MIGRATION_RETRY_MS);
+      if (!stillCurrent()) {
+        return false;
+      }
+      if (await this.attachToHost(userId, HOST_MIGRATION_RETRY_MS * 2)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * A freshly migrated host starts from the previous participant list so
+   * existing calls survive; anyone who has not reattached after the grace
+   * period is assumed gone.
+   */
+  private scheduleReattachSweep(): void {
+    if (this.reattachTimer) {
+      clearTimeout(this.reattachTimer);
+    }
+    this.reattachTimer = setTimeout(() => {
+      this.reattachTimer = null;
+      if (!this.isHost) {
+        return;
+      }
+      let changed = false;
+      for (const peerId of Array.from(this.participants.keys())) {
+        if (peerId !== this.selfPeerId && !this.hostConnections.has(peerId)) {
+          this.removeParticipant(peerId);
+          changed = true;
+        }
+      }
+      if (changed) {
+        this.broadcastParticipantList();
+      }
+    }, HOST_REATTACH_GRACE_MS);
+  }
+
+  private setupCommonPeerHandlers(peer: Peer): void {
+    peer.on("disconnected", () => {
+      if (this.peer === peer) {
+        this.events.onConnectionLost();
+      }
+    });
+    peer.on("call", (call) => {
+      if (!this.localStream || !this.acceptsCall(call.peer)) {
+        call.close();
+        return;
+      }
+      call.answer(this.localStream);
+      this.attachCall(call);
+    });
+    peer.on("error", (error: unknown) => {
+      const type = String((error as { type?: string })?.type ?? "");
+      // Expected while probing for the new host during migration.
+      if (this.migrating && type === "peer-unavailable") {
+        return;
+      }
+      this.events.onError("Voice network error occurred.");
+    });
+  }
+
+  private setupHostHandlers(peer: Peer): void {
+    peer.on("connection", (conn) => {
+      conn.on("data", (raw) => {
+        const msg = raw as HostMessage;
+        if (msg.type === "join-request") {
+          if (msg.protocolVersion !== PROTOCOL_VERSION) {
+            conn.send({
+              type: "join-rejected",
+              reason: PROTOCOL_MISMATCH_MESSAGE,
+            } satisfies HostMessage);
+            return;
+          }
+          // The broker vouches for `conn.peer`; the claimed id is only a request.
+          if (msg.peerId !== conn.peer) {
+            conn.send({
+              type: "join-rejected",
+              reason: "Join requests must come from the joining peer.",
+            } satisfies HostMessage);
+            return;
+          }
+          const previous = this.hostConnections.get(msg.peerId);
+          this.hostConnections.set(msg.peerId, conn);
+          // The same peer rejoined on a new connection; its old one no longer speaks for it.
+          if (previous && previous !== conn) {
+            previous.close();
+          }
+          this.participants.set(msg.peerId, {
+            socketId: msg.peerId,
+            userId: msg.userId,
+            muted: msg.muted ?? false,
+            transmitting: msg.transmitting ?? false,
+          });
+          this.applyChannelUpdate({
+            type: "channel-update",
+            peerId: conn.peer,
+            team: msg.team,
+            whisperTargets: this.knownWhisperTargets(conn.peer, msg.whisperTargets),
+          });
+          conn.send({ type: "chat-history", messages: this.chatMessages } satisfies HostMessage);
+        } else if (
+          msg.type === "leave-request" ||
+          msg.type === "mute-update" ||
+          msg.type === "transmit-update"
+        ) {
+          // Only a participant's own connection may speak for it.
+          if (this.getPeerIdByConnection(conn) === msg.peerId) {
+            this.applyParticipantMessage(msg);
+          }
+        } else if (msg.type === "channel-update") {
+          // Applied to the connection's own participant, whatever id the message claims.
+          const peerId = this.getPeerIdByConnection(conn);
+          if (peerId) {
+            this.applyChannelUpdate({
+              ...msg,
+              peerId,
+              whisperTargets: this.knownWhisperTargets(peerId, msg.whisperTargets),
+            });
+          }
+        } else if (msg.type === "chat-send") {
+          // The sender is whoever owns the connection, not what the message claims.
+          const peerId = this.getPeerIdByConnection(conn);
+          const rejection = peerId
+            ? this.acceptChatMessage(peerId, msg.text)
+            : "Join the room before chatting.";
+          if (rejection) {
+            conn.send({ type: "chat-rejected", reason: rejection } satisfies HostMessage);
+          }
+        }
+      });
+
+      conn.on("close", () => {
+        const peerId = this.getPeerIdByConnection(conn);
+        if (peerId) {
+          this.removeParticipant(peerId);
+          this.broadcastParticipantList();
+        }
+      });
+    });
+
+    // The original host's peer is also the media peer, which reports its own drop.
+    if (peer !== this.peer) {
+      peer.on("disconnected", () => {
+        if (this.hostPeer === peer) {
+          this.events.onConnectionLost();
+        }
+      });
+    }
+  }
+
+  private handleHostMessage(message: HostMessage): void {
+    if (message.type === "host-closing") {
+      const control = this.hostControlConnection;
+      this.hostControlConnection = null;
+      control?.close();
+      this.handleHostLost();
+      return;
+    }
+    if (message.type === "chat-history") {
+      this.chatMessages = message.messages;
+      this.events.onChatMessages(this.chatMessages);
+      return;
+    }
+    if (message.type === "chat-message") {
+      this.chatMessages = appendChatMessage(this.chatMessages, message.message);
+      this.events.onChatMessages(this.chatMessages);
+      return;
+    }
+    if (message.type === "chat-rejected") {
+      this.events.onError(message.reason);
+      return;
+    }
+    if (message.type === "join-rejected") {
+      // A room host on another protocol version, or one that refused our peer id;
+      // rejoining cannot help until a reload.
+      this.events.onError(message.reason);
+      this.disconnect();
+      this.events.onClosed();
+      return;
+    }
+    if (message.type !== "participant-list") {
+      return;
+    }
+
+    this.hostParticipantId = message.hostId;
+
+    this.participants = new Map(
+      message.participants.map((participant) => [participant.socketId, participant])
+    );
+    this.events.onParticipants(message.participants);
+    this.reconcileCalls(message.participants);
+  }
+
+  /**
+   * Keeps calls to the participants `selectCallPeers` picks and hangs up the
+   * rest. Only the higher peer id places a call, so a pair never calls twice.
+   */
+  private reconcileCalls(participants: Participant[]): void {
+    if (!this.peer || !this.localStream || !this.selfPeerId) {
+      return;
+    }
+
+    const wanted = selectCallPeers(
+      this.selfPeerId,
+      participants,
+      new Set(this.calls.keys()),
+      this.callCulling
+    );
+    for (const peerId of Array.from(this.calls.keys())) {
+      if (!wanted.has(peerId)) {
+        this.removeCall(peerId);
+      }
+    }
+
+    const now = Date.now();
+    for (const peerId of wanted) {
+      if (this.calls.has(peerId)) {
+        continue;
+      }
+      if (this.selfPeerId.localeCompare(peerId) <= 0) {
+        continue;
+      }
+      if ((this.callRetryAt.get(peerId) ?? 0) > now) {
+        continue;
+      }
+      const call = this.peer.call(peerId, this.localStream);
+      if (call) {
+        this.attachCall(call);
+        this.unansweredCalls.set(
+          peerId,
+          setTimeout(() => {
+            this.callRetryAt.set(peerId, Date.now() + CALL_RETRY_DELAY_MS);
+            this.removeCall(peerId);
+          }, CALL_ANSWER_TIMEOUT_MS)
+        );
+      }
+    }
+  }
+
+  /**
+   * Callee side of culling: answers only if the caller would be kept were the
+   * call already up, then drops whatever that pushes over the cap.
+   */
+  private acceptsCall(peerId: string): boolean {
+    if (!this.selfPeerId) {
+      return false;
+    }
+    // Not listed yet (the host's update is still on its way); judged on the next reconcile.
+    if (!this.participants.has(peerId)) {
+      return true;
+    }
+    const connected = new Set(this.calls.keys()).add(peerId);
+    const wanted = selectCallPeers(
+      this.selfPeerId,
+      Array.from(this.participants.values()),
+      connected,
+      this.callCulling
+    );
+    if (!wanted.has(peerId)) {
+      return false;
+    }
+    for (const existing of Array.from(this.calls.keys())) {
+      if (!wanted.has(existing)) {
+        this.removeCall(existing);
+      }
+    }
+    return true;
+  }
+
+  private attachCall(call: MediaConnection): void {
+    const peerId = call.peer;
+    this.calls.set(peerId, call);
+
+    call.on("stream", (stream) => {
+      this.clearUnanswered(peerId);
+      this.callRetryAt.delete(peerId);
+      this.remoteStreams.set(peerId, stream);
+      this.events.onRemoteStream(peerId, stream);
+    });
+
+    const clear = () => this.removeCall(peerId);
+    call.on("close", clear);
+    call.on("error", clear);
+  }
+
+  private clearUnanswered(peerId: string): void {
+    const timer = this.unansweredCalls.get(peerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.unansweredCalls.delete(peerId);
+    }
+  }
+
+  private removeCall(peerId: string): void {
+    this.clearUnanswered(peerId);
+    const call = this.calls.get(peerId);
+    if (call) {
+      call.close();
+      this.calls.delete(peerId);
+    }
+
+    const stream = this.remoteStreams.get(peerId);
+    if (stream) {
+      stream.getTracks().forEach((track) => track.stop());
+      this.remoteStreams.delete(peerId);
+    }
+
+    this.events.onPeerDisconnected(peerId);
+  }
+
+  private cleanupCalls(): void {
+    for (const peerId of Array.from(this.calls.keys())) {
+      this.removeCall(peerId);
+    }
+  }
+
+  private removeParticipant(peerId: string): void {
+    this.participants.delete(peerId);
+    this.hostConnections.delete(peerId);
+    this.removeCall(peerId);
+  }
+
+  /** Host side of a participant's own leave, mute and transmit changes. */
+  private applyParticipantMessage(
+    msg: Extract<HostMessage, { type: "leave-request" | "mute-update" | "transmit-update" }>
+  ): void {
+    if (msg.type === "leave-request") {
+      this.removeParticipant(msg.peerId);
+      this.broadcastParticipantList();
+      return;
+    }
+    const participant = this.participants.get(msg.peerId);
+    if (!participant) {
+      return;
+    }
+    if (msg.type === "mute-update") {
+      participant.muted = msg.muted;
+      this.broadcastParticipantList();
+    } else if (participant.transmitting !== msg.transmitting) {
+      participant.transmitting = msg.transmitting;
+      this.broadcastParticipantList();
+    }
+  }
+
+  /** The participant a connection speaks for: its own peer id, once that id has joined on it. */
+  private getPeerIdByConnection(connection: DataConnection): string | null {
+    return this.hostConnections.get(connection.peer) === connection ? connection.peer : null;
+  }
+
+  /** Host side of team and whisper changes; callers filter whisper targets first. */
+  private applyChannelUpdate(update: Extract<HostMessage, { type: "channel-update" }>): void {
+    const participant = this.participants.get(update.peerId);
+    if (!participant) {
+      return;
+    }
+    const team = update.team?.trim();
+    if (team) {
+      participant.team = team;
+    } else {
+      delete participant.team;
+    }
+    const targets = Array.from(new Set(update.whisperTargets)).slice(0, MAX_WHISPER_TARGETS);
+    if (targets.length > 0) {
+      participant.whisperTargets = targets;
+    } else {
+      delete participant.whisperTargets;
+    }
+    this.broadcastParticipantList();
+  }
+
+  /** Whisper targets a peer may route to: other participants already in the room. */
+  private knownWhisperTargets(peerId: string, targets: unknown): string[] {
+    if (!Array.isArray(targets)) {
+      return [];
+    }
+    return targets.filter(
+      (target): target is string =>
+        typeof target === "string" && target !== peerId && this.participants.has(target)
+    );
+  }
+
+  /**
+   * Host side of chat: validates and rate limits a message, stamps it and
+   * fans it out to every client.
+   * @returns why the message was rejected, or null once it is sent
+   */
+  private acceptChatMessage(peerId: string, rawText: unknown): string | null {
+    const participant = this.participants.get(peerId);
+    if (!participant) {
+      return "Join the room before chatting.";
+    }
+    const text = normalizeChatText(rawText);
+    if (!text) {
+      return `Messages must be 1-${CHAT_MAX_LENGTH} characters.`;
+    }
+    if (!this.chatLimiter.take(participant.userId)) {
+      return "You are sending messages too quickly.";
+    }
+
+    const message: ChatMessage = {
+      id: crypto.randomUUID(),
+      socketId: peerId,
+      userId: participant.userId,
+      text,
+      sentAt: Date.now(),
+    };
+    this.chatMessages = appendChatMessage(this.chatMessages, message);
+    this.events.onChatMessages(this.chatMessages);
+    for (const conn of this.hostConnections.values()) {
+      if (conn.open) {
+        conn.send({ type: "chat-message", message } satisfies HostMessage);
+      }
+    }
+    return null;
+  }
+
+  private broadcastParticipantList(): void {
+    const participants = Array.from(this.participants.values());
+    this.events.onParticipants(participants);
+    this.reconcileCalls(participants);
+
+    if (!this.selfPeerId) {
+      return;
+    }
+    const payload: HostMessage = {
+      type: "participant-list",
+      hostId: this.selfPeerId,
+      participants,
+    };
+    for (const conn of this.hostConnections.values()) {
+      if (conn.open) {
+        conn.send(payload);
+      }
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import type { Participant, ProximitySettings, Vector3 } from "../types/voice";
+
+export const DEFAULT_PROXIMITY_SETTINGS: ProximitySettings = {
+  enabled: true,
+  rolloff: "linear",
+  refDistance: 5,
+  maxDistance: 60,
+  rolloffFactor: 1,
+  stereoPanning: true,
+};
+
+export type SpatialMix = {
+  gain: number;
+  pan: number;
+};
+
+const NON_SPATIAL: SpatialMix = { gain: 1, pan: 0 };
+
+export function distanceBetween(a: Vector3, b: Vector3): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+/**
+ * Same curves as the Web Audio PannerNode distance models, except every model
+ * is cut to silence at `maxDistance` so the hearing radius is a hard edge.
+ */
+export function distanceGain(distance: number, settings: ProximitySettings): number {
+  const { refDistance, maxDistance, rolloffFactor } = settings;
+  if (distance >= maxDistance) {
+    return 0;
+  }
+  const clamped = Math.max(distance, refDistance);
+
+  switch (settings.rolloff) {
+    case "linear": {
+      const span = Math.max(maxDistance - refDistance, Number.EPSILON);
+      return Math.max(0, 1 - (rolloffFactor * (clamped - refDistance)) / span);
+    }
+    case "inverse":
+      return refDistance / (refDistance + rolloffFactor * (clamped - refDistance));
+    case "exponential":
+      return Math.pow(clamped / refDistance, -rolloffFactor);
+  }
+}
+
+/**
+ * Left/right balance from the horizontal offset. Participants carry no facing
+ * direction, so the listener is treated as looking down +Z with +X on the right.
+ */
+export function stereoPan(listener: Vector3, source: Vector3): number {
+  const dx = source.x - listener.x;
+  const dz = source.z - listener.z;
+  const horizontal = Math.hypot(dx, dz);
+  if (horizontal < Number.EPSILON) {
+    return 0;
+  }
+  return Math.max(-1, Math.min(1, dx / horizontal));
+}
+
+/**
+ * Gain and pan for one remote participant as heard by `local`. Anyone not in
+ * game (or without a position) on either side is heard at full volume, centered.
+ */
+export function computeSpatialMix(
+  local: Participant | undefined,
+  remote: Participant,
+  settings: ProximitySettings
+): SpatialMix {
+  if (
+    !settings.enabled ||
+    !local?.inGame ||
+    !local.position ||
+    !remote.inGame ||
+    !remote.position
+  ) {
+    return NON_SPATIAL;
+  }
+
+  return {
+    gain: distanceGain(distanceBetween(local.position, remote.position), settings),
+    pan: settings.stereoPanning ? stereoPan(local.position, remote.position) : 0,
+  };
+}
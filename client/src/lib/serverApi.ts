@@ -0,0 +1,96 @@
+export type LinkCode = {
+  code: string;
+  expiresAt: number;
+};
+
+export type JoinToken = {
+  token: string;
+  expiresAt: number;
+};
+
+export type IceServerConfig = {
+  iceServers: RTCIceServer[];
+  /** When the TURN credentials expire; null when there is nothing to refresh. */
+  expiresAt: number | null;
+};
+
+async function readError(response: Response): Promise<string> {
+  try {
+    const body = (await response.json()) as { error?: string };
+    return body.error ?? `Request failed (${response.status}).`;
+  } catch {
+    return `Request failed (${response.status}).`;
+  }
+}
+
+function jsonHeaders(token?: string): HeadersInit {
+  return token
+    ? { "Content-Type": "application/json", Authorization: `Bearer ${token}` }
+    : { "Content-Type": "application/json" };
+}
+
+/**
+ * Mints a member join token for `userId`. Only works on servers started with
+ * ALLOW_GUEST_TOKENS; production deployments issue tokens from their backend.
+ */
+export async function requestGuestToken(
+  baseUrl: string,
+  userId: string,
+  roomId: string
+): Promise<JoinToken> {
+  const response = await fetch(new URL("/auth/token", baseUrl), {
+    method: "POST",
+    headers: jsonHeaders(),
+    body: JSON.stringify({ userId, rooms: [roomId] }),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return (await response.json()) as JoinToken;
+}
+
+/** Asks the signaling server for a one-time code to enter in game. */
+export async function requestLinkCode(
+  baseUrl: string,
+  userId: string,
+  token?: string
+): Promise<LinkCode> {
+  const response = await fetch(new URL("/link/code", baseUrl), {
+    method: "POST",
+    headers: jsonHeaders(token),
+    body: JSON.stringify({ userId }),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return (await response.json()) as LinkCode;
+}
+
+export async function fetchLinkedRobloxUserId(
+  baseUrl: string,
+  userId: string
+): Promise<number | null> {
+  const response = await fetch(new URL(`/link/status/${encodeURIComponent(userId)}`, baseUrl));
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const body = (await response.json()) as { robloxUserId: number | null };
+  return body.robloxUserId;
+}
+
+/** STUN/TURN servers with short-lived TURN credentials issued for `userId`. */
+export async function fetchIceServers(
+  baseUrl: string,
+  userId: string,
+  token?: string
+): Promise<IceServerConfig> {
+  const response = await fetch(new URL("/ice-servers", baseUrl), {
+    method: "POST",
+    headers: jsonHeaders(token),
+    body: JSON.stringify({ userId }),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return (await response.json()) as IceServerConfig;
+}
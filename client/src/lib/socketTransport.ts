@@ -0,0 +1,698 @@
+import { io, type Socket } from "socket.io-client";
+import {
+  PROTOCOL_MISMATCH_MESSAGE,
+  PROTOCOL_VERSION,
+  type ClientToServerEvents,
+  type JoinedRoomPayload,
+  type ServerToClientEvents,
+  type VoiceError,
+} from "../../../shared/protocol";
+import type {
+  CallCullingSettings,
+  ChatMessage,
+  ModerationAction,
+  Participant,
+  StageRole,
+} from "../types/voice";
+import {
+  CALL_ANSWER_TIMEOUT_MS,
+  CALL_RETRY_DELAY_MS,
+  DEFAULT_CALL_CULLING,
+  selectCallPeers,
+} from "./callCulling";
+import { appendChatMessage } from "./chat";
+import type { SignalingTransport, TransportEvents, TransportSession } from "./voiceClient";
+
+type SignalingSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const SOCKET_CONNECT_TIMEOUT_MS = 5000;
+const JOIN_TIMEOUT_MS = 5000;
+// Newcomers offer on joining; everyone else holds off this long so offers do not cross.
+const JOIN_OFFER_GRACE_MS = 3000;
+
+/** Stage rooms only connect pairs with a speaker; outside stage mode nobody is a listener. */
+function exchangesAudio(a: Participant, b: Participant): boolean {
+  return a.stageRole !== "listener" || b.stageRole !== "listener";
+}
+
+/**
+ * Talks to the socket.io signaling server and runs a plain RTCPeerConnection
+ * mesh. The newcomer sends offers to the peers it picks on joining; after
+ * that the lower socket id offers as peers come into range, so two peers
+ * never offer to each other at the same time.
+ */
+export class SocketIoTransport implements SignalingTransport {
+  private readonly events: TransportEvents;
+
+  private readonly signalingUrl: string;
+
+  private socket: SignalingSocket | null = null;
+
+  private selfSocketId: string | null = null;
+
+  private session: TransportSession | null = null;
+
+  // Lets a reconnecting socket reclaim this participant's slot on the server.
+  private resumeToken: string | null = null;
+
+  private localStream: MediaStream | null = null;
+
+  private iceServers: RTCIceServer[] = [];
+
+  private connections = new Map<string, RTCPeerConnection>();
+
+  private pendingCandidates = new Map<string, RTCIceCandidateInit[]>();
+
+  private remoteStreams = new Map<string, MediaStream>();
+
+  // Offers with no answer yet; a peer that culled us never answers.
+  private unansweredOffers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  // Epoch ms before which this client does not offer to a peer.
+  private callRetryAt = new Map<string, number>();
+
+  private callCulling: CallCullingSettings = DEFAULT_CALL_CULLING;
+
+  private participants: Participant[] = [];
+
+  private chatMessages: ChatMessage[] = [];
+
+  // Listeners connect receive-only and never add the local track.
+  private stageRole: StageRole | undefined;
+
+  // Stage roles from the previous participant update, to spot promotions and demotions.
+  private knownStageRoles = new Map<string, StageRole | undefined>();
+
+  constructor(events: TransportEvents, signalingUrl: string) {
+    this.events = events;
+    this.signalingUrl = signalingUrl;
+  }
+
+  async connect(session: TransportSession): Promise<boolean> {
+    if (this.socket) {
+      return false;
+    }
+    this.session = session;
+    this.localStream = session.localStream;
+    this.iceServers = session.iceServers;
+    this.callCulling = session.callCulling;
+    if (await this.openSession()) {
+      return true;
+    }
+    this.disconnect();
+    return false;
+  }
+
+  /** Rejoins after a dropped connection, reclaiming the held slot if the server still has it. */
+  async resume(): Promise<boolean> {
+    if (this.socket || !this.session) {
+      return false;
+    }
+    return this.openSession();
+  }
+
+  private async openSession(): Promise<boolean> {
+    const session = this.session;
+    if (!session) {
+      return false;
+    }
+    const socket = io(this.signalingUrl, {
+      autoConnect: false,
+      reconnection: false,
+      transports: ["websocket"],
+    });
+    this.socket = socket;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(
+          () => reject(new Error("SOCKET_CONNECT_TIMEOUT")),
+          SOCKET_CONNECT_TIMEOUT_MS
+        );
+        socket.once("connect", () => {
+          clearTimeout(timeout);
+          resolve();
+        });
+        socket.once("connect_error", () => {
+          clearTimeout(timeout);
+          reject(new Error("SOCKET_CONNECT_FAILED"));
+        });
+        socket.connect();
+      });
+    } catch {
+      this.closeSocket();
+      return false;
+    }
+
+    // Registered before joining so join failures (e.g. TOKEN_EXPIRED) reach the UI.
+    this.setupSocketHandlers(socket);
+
+    if (await this.joinRoom(socket)) {
+      return true;
+    }
+    if (this.socket === socket) {
+      this.closeSocket();
+    }
+    return false;
+  }
+
+  /** Joins `session.roomId` on an open socket and offers to the peers already there. */
+  private async joinRoom(socket: SignalingSocket): Promise<boolean> {
+    const session = this.session;
+    if (!session) {
+      return false;
+    }
+    let joined: JoinedRoomPayload;
+    try {
+      joined = await new Promise<JoinedRoomPayload>((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error("JOIN_TIMEOUT")), JOIN_TIMEOUT_MS);
+        socket.once("joined-room", (payload) => {
+          clearTimeout(timeout);
+          socket.off("voice-error", onJoinError);
+          resolve(payload);
+        });
+        const onJoinError = (payload: VoiceError) => {
+          clearTimeout(timeout);
+          reject(new Error(payload.code));
+        };
+        socket.once("voice-error", onJoinError);
+        socket.emit("join-room", {
+          roomId: session.roomId,
+          userId: session.userId,
+          protocolVersion: PROTOCOL_VERSION,
+          token: session.token,
+          resumeToken: this.resumeToken ?? undefined,
+        });
+      });
+    } catch {
+      return false;
+    }
+
+    if (this.socket !== socket) {
+      return false;
+    }
+    // Servers from before the handshake accept any join but send no version.
+    if (joined.protocolVersion !== PROTOCOL_VERSION) {
+      this.closeOutdated(PROTOCOL_MISMATCH_MESSAGE);
+      return false;
+    }
+    this.selfSocketId = joined.selfSocketId;
+    this.resumeToken = joined.resumeToken;
+    // Authoritative after a resume too, in case messages were deleted meanwhile.
+    this.chatMessages = joined.chatHistory;
+    this.events.onChatMessages(this.chatMessages);
+    this.stageRole = joined.stageRole;
+    this.knownStageRoles.clear();
+    this.events.onStageRole(this.stageRole ?? null);
+    // Our own position is not in this list, so only the call cap applies here;
+    // the first participant update culls by distance.
+    const wanted = selectCallPeers(
+      joined.selfSocketId,
+      joined.participants,
+      new Set(),
+      this.callCulling
+    );
+    for (const participant of joined.participants) {
+      if (wanted.has(participant.socketId)) {
+        void this.sendOffer(participant.socketId);
+      }
+    }
+    return true;
+  }
+
+  disconnect(): void {
+    this.closeSocket();
+    this.participants = [];
+    this.callRetryAt.clear();
+    this.chatMessages = [];
+    this.stageRole = undefined;
+    this.knownStageRoles.clear();
+    this.localStream = null;
+    this.session = null;
+    this.resumeToken = null;
+  }
+
+  getSelfId(): string | null {
+    return this.selfSocketId;
+  }
+
+  getPeerConnections(): Map<string, RTCPeerConnection> {
+    return new Map(this.connections);
+  }
+
+  setIceServers(iceServers: RTCIceServer[]): void {
+    this.iceServers = iceServers;
+    for (const connection of this.connections.values()) {
+      connection.setConfiguration({ ...connection.getConfiguration(), iceServers });
+    }
+  }
+
+  setCallCulling(settings: CallCullingSettings): void {
+    this.callCulling = settings;
+    this.reconcileCalls();
+  }
+
+  setMuted(muted: boolean): void {
+    this.socket?.emit("set-muted", { muted });
+  }
+
+  setTransmitting(transmitting: boolean): void {
+    this.socket?.emit("set-transmitting", { transmitting });
+  }
+
+  setTeam(team: string | null): void {
+    this.socket?.emit("set-team", { team });
+  }
+
+  setWhisperTargets(targets: string[]): void {
+    this.socket?.emit("set-whisper", { targets });
+  }
+
+  sendChatMessage(text: string): void {
+    this.socket?.emit("chat-send", { text });
+  }
+
+  raiseHand(raised: boolean): void {
+    this.socket?.emit("raise-hand", { raised });
+  }
+
+  moderate(action: ModerationAction): void {
+    const { type, ...payload } = action;
+    // Each action's fields are its event's payload; TypeScript cannot pair the two unions.
+    this.socket?.emit(type, payload as never);
+  }
+
+  private setupSocketHandlers(socket: SignalingSocket): void {
+    socket.on("participant-update", (payload) => {
+      // Stragglers from the room we just moved out of.
+      if (payload.roomId !== this.session?.roomId) {
+        return;
+      }
+      const present = new Set(payload.participants.map((participant) => participant.socketId));
+      for (const peerId of Array.from(this.connections.keys())) {
+        if (!present.has(peerId)) {
+          this.removeConnection(peerId);
+        }
+      }
+      const known = new Set(this.participants.map((participant) => participant.socketId));
+      const graceUntil = Date.now() + JOIN_OFFER_GRACE_MS;
+      for (const participant of payload.participants) {
+        if (!known.has(participant.socketId)) {
+          this.callRetryAt.set(participant.socketId, graceUntil);
+        }
+      }
+      this.participants = payload.participants;
+      this.events.onParticipants(payload.participants);
+      this.reconcileStage(payload.participants);
+      this.reconcileCalls();
+    });
+
+    // Game-server positions arrive as deltas between full participant updates.
+    socket.on("position-update", (payload) => {
+      if (payload.roomId !== this.session?.roomId) {
+        return;
+      }
+      const deltas = new Map(payload.updates.map((delta) => [delta.socketId, delta]));
+      this.participants = this.participants.map((participant) => {
+        const delta = deltas.get(participant.socketId);
+        if (!delta) {
+          return participant;
+        }
+        return {
+          ...participant,
+          position: delta.position ?? participant.position,
+          inGame: delta.inGame ?? participant.inGame,
+        };
+      });
+      this.events.onParticipants(this.participants);
+      this.reconcileCalls();
+    });
+
+    socket.on("peer-left", (payload) => {
+      this.removeConnection(payload.socketId);
+    });
+
+    socket.on("offer", (payload) => {
+      // Declined offers go unanswered; the offerer times out and backs off.
+      if (this.acceptsOffer(payload.from)) {
+        void this.handleOffer(payload.from, payload.sdp);
+      }
+    });
+
+    socket.on("answer", (payload) => {
+      const connection = this.connections.get(payload.from);
+      if (!connection) {
+        return;
+      }
+      void connection
+        .setRemoteDescription(payload.sdp)
+        .then(() => this.flushPendingCandidates(payload.from))
+        .catch(() => this.removeConnection(payload.from));
+    });
+
+    socket.on("ice-candidate", (payload) => {
+      const connection = this.connections.get(payload.from);
+      if (!connection || !connection.remoteDescription) {
+        const queued = this.pendingCandidates.get(payload.from) ?? [];
+        queued.push(payload.candidate);
+        this.pendingCandidates.set(payload.from, queued);
+        return;
+      }
+      void connection.addIceCandidate(payload.candidate).catch(() => undefined);
+    });
+
+    socket.on("chat-message", (message) => {
+      this.chatMessages = appendChatMessage(this.chatMessages, message);
+      this.events.onChatMessages(this.chatMessages);
+    });
+
+    socket.on("chat-deleted", (payload) => {
+      this.chatMessages = this.chatMessages.filter((message) => message.id !== payload.messageId);
+      this.events.onChatMessages(this.chatMessages);
+    });
+
+    socket.on("voice-error", (payload) => {
+      // Retrying cannot help until the page is reloaded with a matching client.
+      if (payload.code === "PROTOCOL_MISMATCH") {
+        this.closeOutdated(payload.message);
+        return;
+      }
+      this.events.onError(payload.message);
+    });
+
+    socket.on("server-muted", (payload) => {
+      this.events.onServerMuted(payload.muted);
+    });
+
+    // The server wants us elsewhere, e.g. our linked Roblox player changed servers.
+    socket.on("room-assigned", (payload) => {
+      void this.moveToRoom(socket, payload.roomId);
+    });
+
+    socket.on("kicked", (payload) => {
+      this.events.onError(payload.reason);
+      this.disconnect();
+      this.events.onClosed();
+    });
+
+    socket.on("disconnect", (reason) => {
+      if (this.socket !== socket) {
+        return;
+      }
+      if (reason === "io server disconnect") {
+        this.events.onError("Signaling server closed the connection.");
+        this.disconnect();
+        this.events.onClosed();
+        return;
+      }
+      // Peers drop our old socket id, so media is re-offered after resuming.
+      this.closeSocket();
+      this.events.onConnectionLost();
+    });
+  }
+
+  /** Ends the session for good; client and server speak different protocol versions. */
+  private closeOutdated(message: string): void {
+    this.events.onError(message);
+    this.disconnect();
+    this.events.onClosed();
+  }
+
+  /** Drops the current mesh and joins `roomId` over the same socket. */
+  private async moveToRoom(socket: SignalingSocket, roomId: string): Promise<void> {
+    const session = this.session;
+    if (!session || this.socket !== socket || session.roomId === roomId) {
+      return;
+    }
+    this.session = { ...session, roomId };
+    // Resume tokens only reclaim slots in the room that issued them.
+    this.resumeToken = null;
+    for (const peerId of Array.from(this.connections.keys())) {
+      this.removeConnection(peerId);
+    }
+    this.pendingCandidates.clear();
+    this.participants = [];
+    this.callRetryAt.clear();
+    this.events.onParticipants([]);
+    // Server mutes are per room. Cleared before joining, since the new room's
+    // `server-muted` can arrive before `joinRoom` returns.
+    this.events.onServerMuted(false);
+
+    if (await this.joinRoom(socket)) {
+      this.events.onRoomChanged(roomId);
+      return;
+    }
+    if (this.socket === socket) {
+      this.events.onError(`Could not move to room ${roomId}.`);
+      this.disconnect();
+      this.events.onClosed();
+    }
+  }
+
+  /** Leaves the room and drops every peer connection, but keeps what `resume()` needs. */
+  private closeSocket(): void {
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.removeAllListeners();
+      if (socket.connected) {
+        socket.emit("leave-room");
+      }
+      socket.disconnect();
+    }
+
+    for (const peerId of Array.from(this.connections.keys())) {
+      this.removeConnection(peerId);
+    }
+    this.pendingCandidates.clear();
+    this.selfSocketId = null;
+  }
+
+  /**
+   * Re-negotiates links whose stage roles changed. The lower socket id offers,
+   * so both ends never offer at once; pairs of listeners are dropped.
+   */
+  private reconcileStage(participants: Participant[]): void {
+    const selfId = this.selfSocketId;
+    const self = participants.find((participant) => participant.socketId === selfId);
+    const previous = this.knownStageRoles;
+    this.knownStageRoles = new Map(
+      participants.map((participant) => [participant.socketId, participant.stageRole])
+    );
+    if (!selfId || !self) {
+      return;
+    }
+    if (self.stageRole !== this.stageRole) {
+      this.stageRole = self.stageRole;
+      this.events.onStageRole(self.stageRole ?? null);
+    }
+    if (!previous.has(selfId)) {
+      return;
+    }
+
+    const selfChanged = previous.get(selfId) !== self.stageRole;
+    const wanted = this.selectCalls();
+    for (const participant of participants) {
+      const peerId = participant.socketId;
+      // Newcomers are handled by the join offers, not here.
+      if (peerId === selfId || participant.reconnecting || !previous.has(peerId)) {
+        continue;
+      }
+      if (!selfChanged && previous.get(peerId) === participant.stageRole) {
+        continue;
+      }
+      if (!exchangesAudio(self, participant)) {
+        this.removeConnection(peerId);
+      } else if (selfId.localeCompare(peerId) < 0 && wanted.has(peerId)) {
+        void this.sendOffer(peerId);
+      }
+    }
+  }
+
+  /** `selectCallPeers` over the participants this client may exchange audio with. */
+  private selectCalls(connected = new Set(this.connections.keys())): Set<string> {
+    const selfId = this.selfSocketId ?? "";
+    const self = this.participants.find((participant) => participant.socketId === selfId);
+    const candidates = self
+      ? this.participants.filter(
+          (participant) => participant === self || exchangesAudio(self, participant)
+        )
+      : this.participants;
+    return selectCallPeers(selfId, candidates, connected, this.callCulling);
+  }
+
+  /**
+   * Opens and closes links as people move in and out of range. Newcomers are
+   * left to their join offers for a moment; otherwise the lower socket id offers.
+   */
+  private reconcileCalls(): void {
+    const selfId = this.selfSocketId;
+    if (!selfId || !this.participants.some((participant) => participant.socketId === selfId)) {
+      return;
+    }
+
+    const wanted = this.selectCalls();
+    for (const peerId of Array.from(this.connections.keys())) {
+      if (!wanted.has(peerId)) {
+        this.removeConnection(peerId);
+      }
+    }
+
+    const now = Date.now();
+    for (const participant of this.participants) {
+      const peerId = participant.socketId;
+      if (
+        !wanted.has(peerId) ||
+        this.connections.has(peerId) ||
+        participant.reconnecting ||
+        selfId.localeCompare(peerId) >= 0 ||
+        (this.callRetryAt.get(peerId) ?? 0) > now
+      ) {
+        continue;
+      }
+      void this.sendOffer(peerId);
+    }
+  }
+
+  /**
+   * Answers only if the offerer would be kept were the link already up, then
+   * drops whatever that pushes over the call cap.
+   */
+  private acceptsOffer(peerId: string): boolean {
+    // Not listed yet (the participant update is still on its way); judged on the next reconcile.
+    if (!this.participants.some((participant) => participant.socketId === peerId)) {
+      return true;
+    }
+    const wanted = this.selectCalls(new Set(this.connections.keys()).add(peerId));
+    if (!wanted.has(peerId)) {
+      return false;
+    }
+    for (const existing of Array.from(this.connections.keys())) {
+      if (!wanted.has(existing)) {
+        this.removeConnection(existing);
+      }
+    }
+    return true;
+  }
+
+  private async sendOffer(peerId: string): Promise<void> {
+    this.removeConnection(peerId, false);
+    const connection = this.createConnection(peerId);
+    if (this.stageRole === "listener") {
+      // Without a track the offer would have no audio section to receive on.
+      connection.addTransceiver("audio", { direction: "recvonly" });
+    }
+    try {
+      const offer = await connection.createOffer();
+      await connection.setLocalDescription(offer);
+      this.socket?.emit("offer", {
+        to: peerId,
+        sdp: { type: "offer", sdp: connection.localDescription?.sdp ?? "" },
+      });
+      this.unansweredOffers.set(
+        peerId,
+        setTimeout(() => {
+          this.unansweredOffers.delete(peerId);
+          if (this.connections.get(peerId) === connection && !connection.remoteDescription) {
+            this.callRetryAt.set(peerId, Date.now() + CALL_RETRY_DELAY_MS);
+            this.removeConnection(peerId);
+          }
+        }, CALL_ANSWER_TIMEOUT_MS)
+      );
+    } catch {
+      this.removeConnection(peerId);
+    }
+  }
+
+  private async handleOffer(peerId: string, sdp: RTCSessionDescriptionInit): Promise<void> {
+    this.removeConnection(peerId, false);
+    const connection = this.createConnection(peerId);
+    try {
+      await connection.setRemoteDescription(sdp);
+      await this.flushPendingCandidates(peerId);
+      const answer = await connection.createAnswer();
+      await connection.setLocalDescription(answer);
+      this.socket?.emit("answer", {
+        to: peerId,
+        sdp: { type: "answer", sdp: connection.localDescription?.sdp ?? "" },
+      });
+    } catch {
+      this.removeConnection(peerId);
+    }
+  }
+
+  private createConnection(peerId: string): RTCPeerConnection {
+    const connection = new RTCPeerConnection({ iceServers: this.iceServers });
+    this.connections.set(peerId, connection);
+
+    // Listeners are receive-only: no uplink track at all.
+    if (this.localStream && this.stageRole !== "listener") {
+      for (const track of this.localStream.getAudioTracks()) {
+        connection.addTrack(track, this.localStream);
+      }
+    }
+
+    connection.onicecandidate = (event) => {
+      if (event.candidate) {
+        const { candidate, sdpMid, sdpMLineIndex, usernameFragment } = event.candidate;
+        this.socket?.emit("ice-candidate", {
+          to: peerId,
+          candidate: { candidate, sdpMid, sdpMLineIndex, usernameFragment },
+        });
+      }
+    };
+
+    connection.ontrack = (event) => {
+      const stream = event.streams[0] ?? new MediaStream([event.track]);
+      this.remoteStreams.set(peerId, stream);
+      this.events.onRemoteStream(peerId, stream);
+    };
+
+    connection.onconnectionstatechange = () => {
+      if (connection.connectionState === "failed" && this.connections.get(peerId) === connection) {
+        this.removeConnection(peerId);
+      }
+    };
+
+    return connection;
+  }
+
+  private async flushPendingCandidates(peerId: string): Promise<void> {
+    const connection = this.connections.get(peerId);
+    const queued = this.pendingCandidates.get(peerId);
+    this.pendingCandidates.delete(peerId);
+    if (!connection || !queued) {
+      return;
+    }
+    for (const candidate of queued) {
+      await connection.addIceCandidate(candidate).catch(() => undefined);
+    }
+  }
+
+  private removeConnection(peerId: string, notify = true): void {
+    const timer = this.unansweredOffers.get(peerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.unansweredOffers.delete(peerId);
+    }
+    const connection = this.connections.get(peerId);
+    if (connection) {
+      connection.onicecandidate = null;
+      connection.ontrack = null;
+      connection.onconnectionstatechange = null;
+      connection.close();
+      this.connections.delete(peerId);
+    }
+    this.pendingCandidates.delete(peerId);
+
+    const stream = this.remoteStreams.get(peerId);
+    if (stream) {
+      stream.getTracks().forEach((track) => track.stop());
+      this.remoteStreams.delete(peerId);
+    }
+
+    if (connection && notify) {
+      this.events.onPeerDisconnected(peerId);
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import type { VoiceActivitySettings } from "../types/voice";
+
+export const DEFAULT_VOICE_ACTIVITY_SETTINGS: VoiceActivitySettings = {
+  threshold: 0.3,
+  hangoverMs: 300,
+};
+
+type Monitor = {
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  samples: Float32Array<ArrayBuffer>;
+  speaking: boolean;
+  lastVoiceAt: number;
+  reportedLevel: number;
+};
+
+const POLL_INTERVAL_MS = 50;
+// Level changes smaller than this are not worth a UI update.
+const LEVEL_REPORT_STEP = 0.02;
+// Levels map -60..0 dBFS onto 0..1, so the meter moves with perceived loudness.
+const LEVEL_FLOOR_DB = -60;
+
+function rmsToLevel(rms: number): number {
+  if (rms <= 0) {
+    return 0;
+  }
+  const db = 20 * Math.log10(rms);
+  return Math.max(0, Math.min(1, (db - LEVEL_FLOOR_DB) / -LEVEL_FLOOR_DB));
+}
+
+/** Current level (0..1, same scale as `VoiceActivity.level`) of what the analyser hears. */
+export function measureLevel(analyser: AnalyserNode, samples: Float32Array<ArrayBuffer>): number {
+  analyser.getFloatTimeDomainData(samples);
+  let sumOfSquares = 0;
+  for (const sample of samples) {
+    sumOfSquares += sample * sample;
+  }
+  return rmsToLevel(Math.sqrt(sumOfSquares / samples.length));
+}
+
+/**
+ * Polls an AnalyserNode per stream and reports speaking state with a hangover,
+ * so short pauses between words do not make the indicator flicker.
+ */
+export class VoiceActivityDetector {
+  private readonly onChange: (id: string, speaking: boolean, level: number) => void;
+
+  private settings: VoiceActivitySettings;
+
+  private context: AudioContext | null = null;
+
+  // Someone else's context (e.g. the mixer's), which `close` leaves running.
+  private readonly sharedContext?: () => AudioContext;
+
+  private monitors = new Map<string, Monitor>();
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    onChange: (id: string, speaking: boolean, level: number) => void,
+    settings: VoiceActivitySettings = DEFAULT_VOICE_ACTIVITY_SETTINGS,
+    sharedContext?: () => AudioContext
+  ) {
+    this.onChange = onChange;
+    this.settings = settings;
+    this.sharedContext = sharedContext;
+  }
+
+  setSettings(settings: VoiceActivitySettings): void {
+    this.settings = settings;
+  }
+
+  add(id: string, stream: MediaStream): void {
+    this.remove(id);
+    if (stream.getAudioTracks().length === 0) {
+      return;
+    }
+    const context = this.ensureContext();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    // Analysis only; nothing is connected to the destination.
+    source.connect(analyser);
+
+    this.monitors.set(id, {
+      source,
+      analyser,
+      samples: new Float32Array(analyser.fftSize),
+      speaking: false,
+      lastVoiceAt: Number.NEGATIVE_INFINITY,
+      reportedLevel: 0,
+    });
+    this.startPolling();
+  }
+
+  remove(id: string): void {
+    const monitor = this.monitors.get(id);
+    if (!monitor) {
+      return;
+    }
+    monitor.source.disconnect();
+    this.monitors.delete(id);
+    if (monitor.speaking || monitor.reportedLevel > 0) {
+      this.onChange(id, false, 0);
+    }
+    if (this.monitors.size === 0) {
+      this.stopPolling();
+    }
+  }
+
+  removeAll(): void {
+    for (const id of Array.from(this.monitors.keys())) {
+      this.remove(id);
+    }
+  }
+
+  /** Stops everything and releases its own audio context; the detector is done after this. */
+  close(): void {
+    this.removeAll();
+    if (!this.sharedContext) {
+      void this.context?.close().catch(() => undefined);
+    }
+    this.context = null;
+  }
+
+  private ensureContext(): AudioContext {
+    if (!this.context) {
+      this.context = this.sharedContext?.() ?? new AudioContext();
+    }
+    if (this.context.state === "suspended") {
+      void this.context.resume().catch(() => undefined);
+    }
+    return this.context;
+  }
+
+  private startPolling(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    }
+  }
+
+  private stopPolling(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private poll(): void {
+    const now = performance.now();
+    for (const [id, monitor] of this.monitors.entries()) {
+      const level = measureLevel(monitor.analyser, monitor.samples);
+
+      if (level >= this.settings.threshold) {
+        monitor.lastVoiceAt = now;
+      }
+      const speaking = now - monitor.lastVoiceAt < this.settings.hangoverMs;
+
+      if (
+        speaking !== monitor.speaking ||
+        Math.abs(level - monitor.reportedLevel) >= LEVEL_REPORT_STEP
+      ) {
+        monitor.speaking = speaking;
+        monitor.reportedLevel = level;
+        this.onChange(id, speaking, level);
+      }
+    }
+  }
+}
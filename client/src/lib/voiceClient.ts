@@ -1,5 +1,41 @@
-import Peer, { type DataConnection, type MediaConnection } from "peerjs";
-import type { ConnectArgs, ConnectionStatus, Participant } from "../types/voice";
+import type {
+  AudioProcessingSettings,
+  CallCullingSettings,
+  ChatMessage,
+  ConnectArgs,
+  ConnectionStats,
+  ConnectionStatus,
+  ModerationAction,
+  Participant,
+  StageRole,
+  TransmitSettings,
+  VoiceActivitySettings,
+} from "../types/voice";
+import {
+  DEFAULT_AUDIO_PROCESSING,
+  MicProcessor,
+  captureConstraintsChanged,
+} from "./audioProcessing";
+import { DEFAULT_CALL_CULLING } from "./callCulling";
+import { normalizeTeamName } from "./channels";
+import { CHAT_MAX_LENGTH, normalizeChatText } from "./chat";
+import { ConnectionStatsMonitor } from "./connectionStats";
+import { PeerJsTransport } from "./peerTransport";
+import { type IceServerConfig, fetchIceServers } from "./serverApi";
+import { SocketIoTransport } from "./socketTransport";
+import { DEFAULT_VOICE_ACTIVITY_SETTINGS, VoiceActivityDetector } from "./voiceActivity";
+
+export type TransportKind = "peerjs" | "socket";
+
+/** Self-hosted PeerJS broker location, e.g. the one mounted by the signaling server. */
+export type PeerServerOptions = {
+  host: string;
+  port?: number;
+  path?: string;
+  secure?: boolean;
+  /** Must match the broker's `PEER_KEY`. */
+  key?: string;
+};
 
 type VoiceClientOptions = {
   onStatus: (status: ConnectionStatus) => void;
@@ -7,46 +43,223 @@ type VoiceClientOptions = {
   onRemoteStream: (socketId: string, stream: MediaStream) => void;
   onPeerDisconnected: (socketId: string) => void;
   onError: (message: string) => void;
+  /** A moderator muted or unmuted this client; the mic is forced off while muted. */
+  onServerMuted?: (muted: boolean) => void;
+  /** This client's stage role, or null outside stage mode; listeners send nothing. */
+  onStageRole?: (role: StageRole | null) => void;
+  /** The signaling server moved this client, e.g. to its Roblox server's room. */
+  onRoomChanged?: (roomId: string) => void;
+  /** Voice activity for the local user and every remote stream, keyed by participant id. */
+  onSpeaking?: (socketId: string, speaking: boolean, level: number) => void;
+  voiceActivity?: Partial<VoiceActivitySettings>;
+  /** Context for voice activity analysis; without it the client opens its own. */
+  audioContext?: () => AudioContext;
+  /** Fires when the transmit mode opens or closes the mic. */
+  onTransmitting?: (transmitting: boolean) => void;
+  transmit?: Partial<TransmitSettings>;
+  /** The room's retained chat, oldest first, including history from before joining. */
+  onChatMessages?: (messages: ChatMessage[]) => void;
+  /** Periodic network stats for each peer connection while connected. */
+  onConnectionStats?: (socketId: string, stats: ConnectionStats) => void;
+  /** Capture constraints and the Web Audio chain applied before sending. */
+  audioProcessing?: Partial<AudioProcessingSettings>;
+  /** Which participants get a call; keeps large rooms from becoming a full mesh. */
+  callCulling?: Partial<CallCullingSettings>;
+  /** Defaults to "peerjs" (public PeerJS broker, browser-hosted rooms). */
+  transport?: TransportKind;
+  /** Base URL of the socket.io signaling server; required for "socket". */
+  signalingUrl?: string;
+  /** PeerJS broker for "peerjs"; omitted means the public PeerJS cloud. */
+  peerServer?: PeerServerOptions;
+  /** Server that issues STUN/TURN servers (`POST /ice-servers`); without it only public STUN is used. */
+  iceServersUrl?: string;
+};
+
+/** What a transport needs to join a room once the microphone is open. */
+export type TransportSession = {
+  roomId: string;
+  userId: string;
+  token?: string;
+  localStream: MediaStream;
+  iceServers: RTCIceServer[];
+  callCulling: CallCullingSettings;
+};
+
+export type TransportEvents = {
+  onParticipants: (participants: Participant[]) => void;
+  onRemoteStream: (peerId: string, stream: MediaStream) => void;
+  onPeerDisconnected: (peerId: string) => void;
+  onError: (message: string) => void;
+  onServerMuted: (muted: boolean) => void;
+  onChatMessages: (messages: ChatMessage[]) => void;
+  onStageRole: (role: StageRole | null) => void;
+  /** The server moved this client to another room; the new room is already joined. */
+  onRoomChanged: (roomId: string) => void;
+  /** The transport lost its session on its own and has already cleaned up. */
+  onClosed: () => void;
+  /** The network dropped but the session can be resumed with `resume()`. */
+  onConnectionLost: () => void;
 };
 
-type HostMessage =
-  | { type: "join-request"; peerId: string; userId: string }
-  | { type: "leave-request"; peerId: string }
-  | { type: "mute-update"; peerId: string; muted: boolean }
-  | { type: "participant-list"; participants: Participant[] }
-  | { type: "host-closing" };
+/**
+ * Signaling and media plumbing for one room session. Implementations own
+ * their peer connections; `VoiceClient` owns status and the local stream.
+ */
+export interface SignalingTransport {
+  connect(session: TransportSession): Promise<boolean>;
+  /** Re-establishes a dropped session; false means try again later. */
+  resume(): Promise<boolean>;
+  disconnect(): void;
+  /** This client's id in the participant list, once joined. */
+  getSelfId(): string | null;
+  setMuted(muted: boolean): void;
+  /** Lets others see when push-to-talk or the voice gate is sending audio. */
+  setTransmitting(transmitting: boolean): void;
+  sendChatMessage(text: string): void;
+  /** Joins a team channel, or the room-wide channel with null. */
+  setTeam(team: string | null): void;
+  /** Announces who may hear this client right now; empty ends the whisper. */
+  setWhisperTargets(targets: string[]): void;
+  /** Swaps in refreshed TURN credentials for new and existing connections. */
+  setIceServers(iceServers: RTCIceServer[]): void;
+  /** Opens and closes calls to match new culling settings. */
+  setCallCulling(settings: CallCullingSettings): void;
+  /** Live media connections keyed by remote participant id. */
+  getPeerConnections(): Map<string, RTCPeerConnection>;
+  /** Only transports backed by an authoritative server support moderation. */
+  moderate?(action: ModerationAction): void;
+  /** Stage mode is enforced by the signaling server, so only it has a hand queue. */
+  raiseHand?(raised: boolean): void;
+}
 
-const ROOM_ID = "global-room";
+// Detector key for the microphone; reported under the transport's own id.
+const LOCAL_STREAM_ID = "local";
+// Keeps the voice gate open through short pauses so words are not clipped.
+const GATE_HANGOVER_MS = 400;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const RECONNECT_MAX_ATTEMPTS = 8;
+// TURN credentials are refreshed this long before they expire.
+const ICE_REFRESH_LEAD_MS = 5 * 60 * 1000;
+const ICE_REFRESH_MIN_DELAY_MS = 30 * 1000;
+
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+
+export const DEFAULT_TRANSMIT_SETTINGS: TransmitSettings = {
+  mode: "open-mic",
+  pushToTalkKey: "KeyV",
+  whisperKey: "KeyB",
+  gateThreshold: 0.35,
+};
 
-function toHostPeerId(): string {
-  return `room-${ROOM_ID}`;
+export const DEFAULT_ROOM_ID = "global-room";
+
+/**
+ * Normalizes free-form room input into an id that is valid both as a PeerJS
+ * peer id suffix and as a signaling server room id.
+ */
+export function normalizeRoomId(raw: string): string {
+  return raw
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^[-_]+|[-_]+$/g, "")
+    .slice(0, 64);
 }
 
 export class VoiceClient {
   private readonly options: VoiceClientOptions;
 
-  private peer: Peer | null = null;
+  private transport: SignalingTransport | null = null;
 
+  // Raw microphone capture; feeds `processor`, never sent directly.
+  private micStream: MediaStream | null = null;
+
+  private processor: MicProcessor | null = null;
+
+  // The processed stream every connection sends. Its track outlives mic swaps.
   private localStream: MediaStream | null = null;
 
-  private calls = new Map<string, MediaConnection>();
+  private audioProcessing: AudioProcessingSettings;
+
+  private callCulling: CallCullingSettings;
 
-  private hostConnections = new Map<string, DataConnection>();
+  private roomId: string | null = null;
 
-  private hostControlConnection: DataConnection | null = null;
+  // Bumped by every connect and disconnect, so a connect that was cancelled
+  // while awaiting can tell it is stale.
+  private connectGeneration = 0;
 
-  private selfPeerId: string | null = null;
+  private selfMuted = false;
 
-  private isHost = false;
+  private serverMuted = false;
 
-  private remoteStreams = new Map<string, MediaStream>();
+  private stageListener = false;
 
-  private participants = new Map<string, Participant>();
+  private transmitSettings: TransmitSettings;
+
+  private pushToTalkHeld = false;
+
+  // Kept across sessions, like transmit settings, and re-sent on every join.
+  private team: string | null = null;
+
+  // Who the whisper key talks to; only announced while the key is held.
+  private whisperTargets: string[] = [];
+
+  private whisperHeld = false;
+
+  private announcedWhisperTargets: string[] = [];
+
+  private gateOpen = false;
+
+  private transmitting = false;
+
+  // The voice gate listens to a clone of the sent stream, because the sent
+  // track is disabled (and silent) whenever the gate is closed.
+  private gateStream: MediaStream | null = null;
+
+  private inputDeviceId: string | undefined;
 
   private status: ConnectionStatus = "Disconnected";
 
+  // Set when the transport explained a failure itself, so connect() does not
+  // bury that message under a generic one.
+  private transportReportedError = false;
+
+  private reconnectAttempt = 0;
+
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private iceRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private readonly voiceActivity: VoiceActivityDetector;
+
+  private readonly voiceGate: VoiceActivityDetector;
+
+  private readonly connectionStats: ConnectionStatsMonitor;
+
   constructor(options: VoiceClientOptions) {
     this.options = options;
+    this.transmitSettings = { ...DEFAULT_TRANSMIT_SETTINGS, ...options.transmit };
+    this.audioProcessing = { ...DEFAULT_AUDIO_PROCESSING, ...options.audioProcessing };
+    this.callCulling = { ...DEFAULT_CALL_CULLING, ...options.callCulling };
+    this.voiceGate = new VoiceActivityDetector(
+      (_id, speaking) => {
+        this.gateOpen = speaking;
+        this.applyTrackState();
+      },
+      this.gateSettings(),
+      options.audioContext
+    );
+    this.voiceActivity = new VoiceActivityDetector(
+      (id, speaking, level) => this.reportSpeaking(id, speaking, level),
+      { ...DEFAULT_VOICE_ACTIVITY_SETTINGS, ...options.voiceActivity },
+      options.audioContext
+    );
+    this.connectionStats = new ConnectionStatsMonitor(
+      () => this.transport?.getPeerConnections() ?? new Map(),
+      (socketId, stats) => this.options.onConnectionStats?.(socketId, stats)
+    );
   }
 
   getStatus(): ConnectionStatus {
@@ -57,390 +270,557 @@ export class VoiceClient {
     return this.localStream;
   }
 
+  getRoomId(): string | null {
+    return this.roomId;
+  }
+
+  /** This client's participant id in the current room, once joined. */
+  getSelfId(): string | null {
+    return this.transport?.getSelfId() ?? null;
+  }
+
   async connect(args: ConnectArgs): Promise<void> {
-    if (this.peer || this.status !== "Disconnected") {
+    if (this.transport || this.status !== "Disconnected") {
+      return;
+    }
+    const roomId = normalizeRoomId(args.roomId);
+    if (!roomId) {
+      this.options.onError("Room ID is required.");
       return;
     }
+    const transport = this.createTransport();
+    if (!transport) {
+      return;
+    }
+    this.roomId = roomId;
     this.setStatus("Connecting");
+    const generation = ++this.connectGeneration;
 
+    let micStream: MediaStream;
     try {
-      this.localStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-        video: false,
-      });
+      micStream = await this.openMicrophone();
     } catch {
-      this.options.onError("Microphone permission was denied.");
-      this.setStatus("Disconnected");
+      if (generation === this.connectGeneration) {
+        this.options.onError("Microphone permission was denied.");
+        this.roomId = null;
+        this.setStatus("Disconnected");
+      }
+      return;
+    }
+    if (generation !== this.connectGeneration) {
+      // disconnect() was called during the permission prompt.
+      micStream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+    this.micStream = micStream;
+    this.processor = new MicProcessor(this.audioProcessing);
+    this.processor.setInput(this.micStream);
+    this.localStream = this.processor.stream;
+    this.updateVoiceGate();
+    this.applyTrackState();
+
+    const userId = args.userId.trim();
+    const token = args.token?.trim() || undefined;
+    // Fetched after the permission prompt so the credentials are as fresh as possible.
+    const iceServers = await this.loadIceServers(userId, token);
+    if (generation !== this.connectGeneration) {
+      // disconnect() was called while fetching; it already stopped the microphone.
       return;
     }
 
-    let becameHost = await this.tryBecomeHost(args.userId.trim());
-    if (!becameHost) {
-      const joined = await this.joinAsClient(args.userId.trim());
-      if (!joined) {
-        // Retry host claim once in case first election raced.
-        becameHost = await this.tryBecomeHost(args.userId.trim());
-      }
+    this.transport = transport;
+    this.transportReportedError = false;
+    const joined = await transport.connect({
+      roomId,
+      userId,
+      token,
+      localStream: this.localStream,
+      iceServers: iceServers.iceServers,
+      callCulling: this.callCulling,
+    });
+    if (this.transport !== transport) {
+      // disconnect() was called while joining.
+      return;
     }
 
-    if (becameHost || this.hostControlConnection) {
+    if (joined) {
+      this.scheduleIceRefresh(transport, userId, token, iceServers.expiresAt);
+      this.voiceActivity.add(LOCAL_STREAM_ID, this.localStream);
+      transport.setTransmitting(this.transmitting);
+      transport.setTeam(this.team);
       this.setStatus("Connected");
       return;
     }
 
-    this.options.onError("Could not connect to voice network.");
+    if (!this.transportReportedError) {
+      this.options.onError("Could not connect to voice network.");
+    }
     this.disconnect();
   }
 
   disconnect(): void {
-    if (!this.isHost && this.hostControlConnection?.open && this.selfPeerId) {
-      this.hostControlConnection.send({
-        type: "leave-request",
-        peerId: this.selfPeerId,
-      } satisfies HostMessage);
-    }
-
-    if (this.isHost) {
-      for (const conn of this.hostConnections.values()) {
-        if (conn.open) {
-          conn.send({ type: "host-closing" } satisfies HostMessage);
-        }
-        conn.close();
-      }
-    }
-
-    this.hostControlConnection?.close();
-    this.hostControlConnection = null;
-    this.hostConnections.clear();
-    this.peer?.destroy();
-    this.peer = null;
-    this.selfPeerId = null;
-    this.isHost = false;
-    this.cleanupCalls();
+    this.connectGeneration += 1;
+    // Before the transport goes, so the local id still resolves for the final report.
+    this.voiceActivity.removeAll();
+    this.cancelReconnect();
+    this.cancelIceRefresh();
+    // Cleared first so events raised while the transport shuts down are ignored.
+    const transport = this.transport;
+    this.transport = null;
+    transport?.disconnect();
+    this.roomId = null;
+    this.selfMuted = false;
+    this.serverMuted = false;
+    this.stageListener = false;
+    this.pushToTalkHeld = false;
+    this.whisperHeld = false;
+    // Participant ids do not survive the session.
+    this.whisperTargets = [];
+    this.announcedWhisperTargets = [];
     this.cleanupLocalStream();
-    this.participants.clear();
+    this.updateVoiceGate();
+    this.applyTrackState();
     this.options.onParticipants([]);
+    this.options.onChatMessages?.([]);
     this.setStatus("Disconnected");
   }
 
+  /** Disconnects and releases the audio analysis; the client cannot be used after this. */
+  dispose(): void {
+    this.disconnect();
+    this.voiceActivity.close();
+    this.voiceGate.close();
+  }
+
   setMuted(muted: boolean): void {
     if (!this.localStream) {
       return;
     }
-    for (const track of this.localStream.getAudioTracks()) {
-      track.enabled = !muted;
-    }
-    if (!this.selfPeerId) {
-      return;
+    this.selfMuted = muted;
+    this.applyTrackState();
+    this.transport?.setMuted(muted);
+  }
+
+  isServerMuted(): boolean {
+    return this.serverMuted;
+  }
+
+  /**
+   * Picks the microphone (undefined for the system default). Mid-call, only
+   * the processor input changes; the sent track and every connection stay put.
+   */
+  async setInputDevice(deviceId: string | undefined): Promise<void> {
+    this.inputDeviceId = deviceId || undefined;
+    await this.reopenMicrophone();
+  }
+
+  /** Applies live; capture constraint changes reopen the microphone. */
+  setAudioProcessing(settings: AudioProcessingSettings): void {
+    const previous = this.audioProcessing;
+    this.audioProcessing = settings;
+    this.processor?.setSettings(settings);
+    if (captureConstraintsChanged(previous, settings)) {
+      void this.reopenMicrophone();
     }
+  }
 
-    if (this.isHost) {
-      const self = this.participants.get(this.selfPeerId);
-      if (self) {
-        self.muted = muted;
-        this.broadcastParticipantList();
-      }
+  setCallCulling(settings: CallCullingSettings): void {
+    this.callCulling = settings;
+    this.transport?.setCallCulling(settings);
+  }
+
+  getTransmitting(): boolean {
+    return this.transmitting;
+  }
+
+  setTransmitSettings(settings: TransmitSettings): void {
+    this.transmitSettings = settings;
+    this.voiceGate.setSettings(this.gateSettings());
+    this.updateVoiceGate();
+    this.applyTrackState();
+  }
+
+  /** Call from key handlers while the push-to-talk key is held or released. */
+  setPushToTalk(held: boolean): void {
+    if (this.pushToTalkHeld === held) {
       return;
     }
+    this.pushToTalkHeld = held;
+    this.applyTrackState();
+  }
 
-    if (this.hostControlConnection?.open) {
-      this.hostControlConnection.send({
-        type: "mute-update",
-        peerId: this.selfPeerId,
-        muted,
-      } satisfies HostMessage);
-    }
+  getTeam(): string | null {
+    return this.team;
   }
 
-  private setStatus(status: ConnectionStatus): void {
-    this.status = status;
-    this.options.onStatus(status);
+  /** @returns the team actually joined, after normalization */
+  setTeam(team: string | null): string | null {
+    this.team = normalizeTeamName(team ?? "") || null;
+    this.transport?.setTeam(this.team);
+    return this.team;
   }
 
-  private async tryBecomeHost(userId: string): Promise<boolean> {
-    return new Promise((resolve) => {
-      const hostPeer = new Peer(toHostPeerId(), { debug: 0 });
-      let settled = false;
-      const timeout = setTimeout(() => {
-        if (settled) {
-          return;
-        }
-        hostPeer.destroy();
-        finish(false);
-      }, 3000);
+  /** Participant ids the whisper key talks to. */
+  setWhisperTargets(targets: string[]): void {
+    this.whisperTargets = targets;
+    this.updateWhisper();
+  }
 
-      const finish = (ok: boolean): void => {
-        if (settled) {
-          return;
-        }
-        settled = true;
-        clearTimeout(timeout);
-        resolve(ok);
-      };
-
-      hostPeer.on("open", (peerId) => {
-        this.peer = hostPeer;
-        this.selfPeerId = peerId;
-        this.isHost = true;
-        this.setupCommonPeerHandlers(hostPeer);
-        this.setupHostHandlers(hostPeer);
-        this.participants.set(peerId, { socketId: peerId, userId, muted: false });
-        this.broadcastParticipantList();
-        finish(true);
-      });
-
-      hostPeer.on("error", (error: unknown) => {
-        const message = String((error as { type?: string; message?: string })?.type ?? "");
-        const fallback = String((error as { message?: string })?.message ?? "");
-        if (message.includes("unavailable-id") || fallback.includes("unavailable-id")) {
-          hostPeer.destroy();
-          finish(false);
-          return;
-        }
-        hostPeer.destroy();
-        finish(false);
-      });
-    });
+  /** Call from key handlers while the whisper key is held or released. */
+  setWhispering(held: boolean): void {
+    if (this.whisperHeld === held) {
+      return;
+    }
+    this.whisperHeld = held;
+    this.updateWhisper();
   }
 
-  private async joinAsClient(userId: string): Promise<boolean> {
-    this.peer = new Peer({ debug: 0 });
-    const peer = this.peer;
+  setVoiceActivitySettings(settings: VoiceActivitySettings): void {
+    this.voiceActivity.setSettings(settings);
+  }
 
-    try {
-      await new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => reject(new Error("PEER_OPEN_TIMEOUT")), 5000);
-        peer.on("open", (peerId) => {
-          clearTimeout(timeout);
-          this.selfPeerId = peerId;
-          this.setupCommonPeerHandlers(peer);
-          resolve();
-        });
-        peer.on("error", () => {
-          clearTimeout(timeout);
-          reject(new Error("PEER_OPEN_FAILED"));
-        });
-      });
-    } catch {
-      peer.destroy();
-      this.peer = null;
+  /** @returns false when the text was rejected locally, so the input can keep it */
+  sendChatMessage(text: string): boolean {
+    const normalized = normalizeChatText(text);
+    if (!normalized) {
+      this.options.onError(`Messages must be 1-${CHAT_MAX_LENGTH} characters.`);
       return false;
     }
-
-    if (!this.selfPeerId) {
-      peer.destroy();
-      this.peer = null;
+    if (!this.transport || this.status !== "Connected") {
+      this.options.onError("Join a room to chat.");
       return false;
     }
+    this.transport.sendChatMessage(normalized);
+    return true;
+  }
 
-    const control = peer.connect(toHostPeerId(), { reliable: true });
-    this.hostControlConnection = control;
-    const selfPeerId = this.selfPeerId;
+  raiseHand(raised: boolean): void {
+    if (!this.transport?.raiseHand) {
+      this.options.onError("Stage mode needs the signaling server transport.");
+      return;
+    }
+    this.transport.raiseHand(raised);
+  }
 
-    try {
-      await new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => reject(new Error("HOST_CONNECT_TIMEOUT")), 5000);
-        control.on("open", () => {
-          clearTimeout(timeout);
-          control.send({
-            type: "join-request",
-            peerId: selfPeerId,
-            userId,
-          } satisfies HostMessage);
-          resolve();
-        });
-        control.on("error", () => {
-          clearTimeout(timeout);
-          reject(new Error("HOST_CONNECT_FAILED"));
-        });
-      });
-    } catch {
-      control.close();
-      peer.destroy();
-      this.hostControlConnection = null;
-      this.peer = null;
-      this.selfPeerId = null;
-      return false;
+  moderate(action: ModerationAction): void {
+    if (!this.transport?.moderate) {
+      this.options.onError("Moderation needs the signaling server transport.");
+      return;
     }
+    this.transport.moderate(action);
+  }
 
-    control.on("close", () => {
-      this.options.onError("Room host disconnected.");
-      this.disconnect();
-    });
-    control.on("data", (raw) => this.handleHostMessage(raw as HostMessage));
-    return true;
+  private applyTrackState(): void {
+    const enabled =
+      Boolean(this.localStream) &&
+      !this.selfMuted &&
+      !this.serverMuted &&
+      !this.stageListener &&
+      this.isGateOpen();
+    for (const track of this.localStream?.getAudioTracks() ?? []) {
+      track.enabled = enabled;
+    }
+    if (enabled !== this.transmitting) {
+      this.transmitting = enabled;
+      this.transport?.setTransmitting(enabled);
+      this.options.onTransmitting?.(enabled);
+    }
   }
 
-  private setupCommonPeerHandlers(peer: Peer): void {
-    peer.on("call", (call) => {
-      if (!this.localStream) {
-        call.close();
-        return;
-      }
-      call.answer(this.localStream);
-      this.attachCall(call);
-    });
-    peer.on("error", () => {
-      this.options.onError("Voice network error occurred.");
-    });
+  private isGateOpen(): boolean {
+    // Holding the whisper key talks regardless of the transmit mode.
+    if (this.announcedWhisperTargets.length > 0) {
+      return true;
+    }
+    switch (this.transmitSettings.mode) {
+      case "open-mic":
+        return true;
+      case "push-to-talk":
+        return this.pushToTalkHeld;
+      case "voice-activated":
+        return this.gateOpen;
+    }
   }
 
-  private setupHostHandlers(peer: Peer): void {
-    peer.on("connection", (conn) => {
-      conn.on("data", (raw) => {
-        const msg = raw as HostMessage;
-        if (msg.type === "join-request") {
-          this.hostConnections.set(msg.peerId, conn);
-          this.participants.set(msg.peerId, {
-            socketId: msg.peerId,
-            userId: msg.userId,
-            muted: false,
-          });
-          this.broadcastParticipantList();
-        } else if (msg.type === "leave-request") {
-          this.removeParticipant(msg.peerId);
-          this.broadcastParticipantList();
-        } else if (msg.type === "mute-update") {
-          const participant = this.participants.get(msg.peerId);
-          if (participant) {
-            participant.muted = msg.muted;
-            this.broadcastParticipantList();
-          }
-        }
-      });
+  private updateWhisper(): void {
+    const targets = this.whisperHeld && this.localStream ? this.whisperTargets : [];
+    const previous = this.announcedWhisperTargets;
+    if (
+      targets.length === previous.length &&
+      targets.every((target, index) => target === previous[index])
+    ) {
+      return;
+    }
+    this.announcedWhisperTargets = targets;
+    if (targets.length > 0) {
+      // Announce before the mic opens so listeners re-route first.
+      this.transport?.setWhisperTargets(targets);
+      this.applyTrackState();
+    } else {
+      this.applyTrackState();
+      this.transport?.setWhisperTargets(targets);
+    }
+  }
 
-      conn.on("close", () => {
-        const peerId = this.getPeerIdByConnection(conn);
-        if (peerId) {
-          this.removeParticipant(peerId);
-          this.broadcastParticipantList();
-        }
-      });
+  private async openMicrophone(): Promise<MediaStream> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: this.inputDeviceId ? { exact: this.inputDeviceId } : undefined,
+        echoCancellation: this.audioProcessing.echoCancellation,
+        noiseSuppression: this.audioProcessing.noiseSuppression,
+        autoGainControl: this.audioProcessing.autoGainControl,
+      },
+      video: false,
     });
-
-    peer.on("disconnected", () => this.disconnect());
+    stream.getAudioTracks().forEach((track) => this.watchInputTrack(track));
+    return stream;
   }
 
-  private handleHostMessage(message: HostMessage): void {
-    if (message.type === "host-closing") {
-      this.options.onError("Room host disconnected.");
-      this.disconnect();
+  private async reopenMicrophone(): Promise<void> {
+    const processor = this.processor;
+    if (!processor) {
+      return;
+    }
+    let mic: MediaStream;
+    try {
+      mic = await this.openMicrophone();
+    } catch {
+      this.options.onError("Could not open the selected microphone.");
       return;
     }
-    if (message.type !== "participant-list") {
+    if (this.processor !== processor) {
+      // Disconnected while the device was opening.
+      mic.getTracks().forEach((track) => track.stop());
       return;
     }
+    this.micStream?.getTracks().forEach((track) => track.stop());
+    this.micStream = mic;
+    processor.setInput(mic);
+  }
 
-    this.participants = new Map(
-      message.participants.map((participant) => [participant.socketId, participant])
-    );
-    this.options.onParticipants(message.participants);
-    this.reconcileCalls(message.participants);
+  /** Falls back to the default mic when the selected one is unplugged mid-call. */
+  private watchInputTrack(track: MediaStreamTrack): void {
+    track.addEventListener("ended", () => {
+      if (!this.micStream?.getAudioTracks().includes(track)) {
+        return;
+      }
+      this.options.onError("Microphone disconnected. Switched to the default microphone.");
+      void this.setInputDevice(undefined);
+    });
   }
 
-  private reconcileCalls(participants: Participant[]): void {
-    if (!this.peer || !this.localStream || !this.selfPeerId) {
+  private gateSettings(): VoiceActivitySettings {
+    return { threshold: this.transmitSettings.gateThreshold, hangoverMs: GATE_HANGOVER_MS };
+  }
+
+  /** Runs the voice gate detector only while voice-activated mode has a mic to listen to. */
+  private updateVoiceGate(): void {
+    const wanted = this.transmitSettings.mode === "voice-activated" && this.localStream !== null;
+    if (wanted && !this.gateStream && this.localStream) {
+      this.gateStream = this.localStream.clone();
+      this.voiceGate.add(LOCAL_STREAM_ID, this.gateStream);
       return;
     }
-
-    const present = new Set(participants.map((participant) => participant.socketId));
-    for (const peerId of Array.from(this.calls.keys())) {
-      if (!present.has(peerId)) {
-        this.removeCall(peerId);
-      }
+    if (!wanted && this.gateStream) {
+      this.voiceGate.remove(LOCAL_STREAM_ID);
+      this.gateStream.getTracks().forEach((track) => track.stop());
+      this.gateStream = null;
+      this.gateOpen = false;
     }
+  }
 
-    for (const participant of participants) {
-      if (participant.socketId === this.selfPeerId) {
-        continue;
-      }
-      if (this.calls.has(participant.socketId)) {
-        continue;
-      }
-      if (this.selfPeerId.localeCompare(participant.socketId) <= 0) {
-        continue;
-      }
-      const call = this.peer.call(participant.socketId, this.localStream);
-      if (call) {
-        this.attachCall(call);
-      }
+  /** Carries this client's state over to the room the server moved it to. */
+  private handleRoomChanged(transport: SignalingTransport, roomId: string): void {
+    if (this.transport !== transport) {
+      return;
     }
+    this.roomId = roomId;
+    // Participant ids do not carry over to the new room.
+    this.whisperTargets = [];
+    this.announcedWhisperTargets = [];
+    // The old room's server mute was cleared before joining; the new room sends its own.
+    this.applyTrackState();
+    transport.setMuted(this.selfMuted);
+    transport.setTransmitting(this.transmitting);
+    transport.setTeam(this.team);
+    this.options.onRoomChanged?.(roomId);
   }
 
-  private attachCall(call: MediaConnection): void {
-    const peerId = call.peer;
-    this.calls.set(peerId, call);
-
-    call.on("stream", (stream) => {
-      this.remoteStreams.set(peerId, stream);
-      this.options.onRemoteStream(peerId, stream);
-    });
-
-    const clear = () => this.removeCall(peerId);
-    call.on("close", clear);
-    call.on("error", clear);
+  private handleConnectionLost(transport: SignalingTransport): void {
+    if (this.transport !== transport || this.status !== "Connected") {
+      return;
+    }
+    this.reconnectAttempt = 0;
+    this.setStatus("Reconnecting");
+    this.scheduleReconnect(transport);
   }
 
-  private removeCall(peerId: string): void {
-    const call = this.calls.get(peerId);
-    if (call) {
-      call.close();
-      this.calls.delete(peerId);
+  /** Retries `resume()` with backoff and jitter until `RECONNECT_MAX_ATTEMPTS` have failed. */
+  private scheduleReconnect(transport: SignalingTransport): void {
+    if (this.reconnectAttempt >= RECONNECT_MAX_ATTEMPTS) {
+      this.options.onError("Lost connection to the voice network.");
+      this.disconnect();
+      return;
     }
+    const backoff = Math.min(
+      RECONNECT_MAX_DELAY_MS,
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt
+    );
+    this.reconnectAttempt += 1;
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        const resumed = await transport.resume();
+        if (this.transport !== transport) {
+          return;
+        }
+        if (resumed) {
+          transport.setMuted(this.selfMuted);
+          transport.setTransmitting(this.transmitting);
+          transport.setTeam(this.team);
+          transport.setWhisperTargets(this.announcedWhisperTargets);
+          this.setStatus("Connected");
+          return;
+        }
+      } catch {
+        // A throwing attempt counts as a failed one; the backoff carries on.
+        if (this.transport !== transport) {
+          return;
+        }
+      }
+      this.scheduleReconnect(transport);
+    }, backoff * (0.8 + Math.random() * 0.4));
+  }
 
-    const stream = this.remoteStreams.get(peerId);
-    if (stream) {
-      stream.getTracks().forEach((track) => track.stop());
-      this.remoteStreams.delete(peerId);
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
-
-    this.options.onPeerDisconnected(peerId);
   }
 
-  private cleanupCalls(): void {
-    for (const peerId of Array.from(this.calls.keys())) {
-      this.removeCall(peerId);
+  /** Falls back to public STUN when no server is configured or it cannot be reached. */
+  private async loadIceServers(userId: string, token?: string): Promise<IceServerConfig> {
+    if (!this.options.iceServersUrl) {
+      return { iceServers: DEFAULT_ICE_SERVERS, expiresAt: null };
+    }
+    try {
+      return await fetchIceServers(this.options.iceServersUrl, userId, token);
+    } catch {
+      return { iceServers: DEFAULT_ICE_SERVERS, expiresAt: null };
     }
   }
 
-  private cleanupLocalStream(): void {
-    if (!this.localStream) {
+  private scheduleIceRefresh(
+    transport: SignalingTransport,
+    userId: string,
+    token: string | undefined,
+    expiresAt: number | null
+  ): void {
+    const url = this.options.iceServersUrl;
+    if (expiresAt === null || !url) {
       return;
     }
-    this.localStream.getTracks().forEach((track) => track.stop());
-    this.localStream = null;
+    const delay = Math.max(ICE_REFRESH_MIN_DELAY_MS, expiresAt - Date.now() - ICE_REFRESH_LEAD_MS);
+    this.iceRefreshTimer = setTimeout(async () => {
+      this.iceRefreshTimer = null;
+      try {
+        const refreshed = await fetchIceServers(url, userId, token);
+        if (this.transport === transport) {
+          transport.setIceServers(refreshed.iceServers);
+          this.scheduleIceRefresh(transport, userId, token, refreshed.expiresAt);
+        }
+      } catch {
+        // Keep the current credentials and retry after the minimum delay.
+        if (this.transport === transport) {
+          this.scheduleIceRefresh(transport, userId, token, Date.now());
+        }
+      }
+    }, delay);
   }
 
-  private removeParticipant(peerId: string): void {
-    this.participants.delete(peerId);
-    this.hostConnections.delete(peerId);
-    this.removeCall(peerId);
+  private cancelIceRefresh(): void {
+    if (this.iceRefreshTimer) {
+      clearTimeout(this.iceRefreshTimer);
+      this.iceRefreshTimer = null;
+    }
   }
 
-  private getPeerIdByConnection(connection: DataConnection): string | null {
-    for (const [peerId, conn] of this.hostConnections.entries()) {
-      if (conn === connection) {
-        return peerId;
+  private createTransport(): SignalingTransport | null {
+    let transport: SignalingTransport | null = null;
+    const events: TransportEvents = {
+      onParticipants: this.options.onParticipants,
+      onRemoteStream: (peerId, stream) => {
+        this.voiceActivity.add(peerId, stream);
+        this.options.onRemoteStream(peerId, stream);
+      },
+      onPeerDisconnected: (peerId) => {
+        this.voiceActivity.remove(peerId);
+        this.options.onPeerDisconnected(peerId);
+      },
+      onError: (message) => {
+        this.transportReportedError = true;
+        this.options.onError(message);
+      },
+      onServerMuted: (muted) => {
+        this.serverMuted = muted;
+        this.applyTrackState();
+        this.options.onServerMuted?.(muted);
+      },
+      onChatMessages: (messages) => this.options.onChatMessages?.(messages),
+      onStageRole: (role) => {
+        this.stageListener = role === "listener";
+        this.applyTrackState();
+        this.options.onStageRole?.(role);
+      },
+      onRoomChanged: (roomId) => {
+        if (transport) {
+          this.handleRoomChanged(transport, roomId);
+        }
+      },
+      onClosed: () => this.disconnect(),
+      onConnectionLost: () => {
+        if (transport) {
+          this.handleConnectionLost(transport);
+        }
+      },
+    };
+
+    if (this.options.transport === "socket") {
+      if (!this.options.signalingUrl) {
+        this.options.onError("Signaling server URL is not configured.");
+        return null;
       }
+      transport = new SocketIoTransport(events, this.options.signalingUrl);
+    } else {
+      transport = new PeerJsTransport(events, this.options.peerServer);
     }
-    return null;
+    return transport;
   }
 
-  private broadcastParticipantList(): void {
-    const participants = Array.from(this.participants.values());
-    this.options.onParticipants(participants);
-    this.reconcileCalls(participants);
+  private reportSpeaking(id: string, speaking: boolean, level: number): void {
+    const socketId = id === LOCAL_STREAM_ID ? this.transport?.getSelfId() : id;
+    if (socketId) {
+      this.options.onSpeaking?.(socketId, speaking, level);
+    }
+  }
 
-    const payload: HostMessage = { type: "participant-list", participants };
-    for (const conn of this.hostConnections.values()) {
-      if (conn.open) {
-        conn.send(payload);
-      }
+  private setStatus(status: ConnectionStatus): void {
+    this.status = status;
+    // Stats are meaningless while signaling is down, so sampling pauses with it.
+    if (status === "Connected" && this.options.onConnectionStats) {
+      this.connectionStats.start();
+    } else {
+      this.connectionStats.stop();
     }
+    this.options.onStatus(status);
   }
 
+  private cleanupLocalStream(): void {
+    this.micStream?.getTracks().forEach((track) => track.stop());
+    this.micStream = null;
+    this.processor?.close();
+    this.processor = null;
+    this.localStream = null;
+  }
 }
@@ -1,14 +1,112 @@
-export type ConnectionStatus = "Disconnected" | "Connecting" | "Connected";
+export type {
+  ChatMessage,
+  ModerationAction,
+  Participant,
+  ParticipantRole,
+  StageRole,
+  Vector3,
+} from "../../../shared/protocol";
 
-export type Participant = {
-  socketId: string;
-  userId: string;
-  muted: boolean;
-  robloxUserId?: number;
-  inGame?: boolean;
-  position?: { x: number; y: number; z: number };
+export type ConnectionStatus = "Disconnected" | "Connecting" | "Connected" | "Reconnecting";
+
+/** Live voice activity for one participant, as reported by `onSpeaking`. */
+export type VoiceActivity = {
+  speaking: boolean;
+  /** 0..1 on a -60..0 dBFS scale. */
+  level: number;
+};
+
+export type VoiceActivitySettings = {
+  /** Level (0..1) at or above which a stream counts as speech. */
+  threshold: number;
+  /** How long speaking stays on after the level drops below the threshold. */
+  hangoverMs: number;
+};
+
+/** Local-only playback settings for one remote user. */
+export type ParticipantAudioPreference = {
+  /** 0..2, where 1 is unchanged. */
+  volume: number;
+  /** Silences this user for the local listener only. */
+  mutedForMe: boolean;
+};
+
+export type TransmitMode = "open-mic" | "push-to-talk" | "voice-activated";
+
+export type TransmitSettings = {
+  mode: TransmitMode;
+  /** `KeyboardEvent.code` held to talk in push-to-talk mode. */
+  pushToTalkKey: string;
+  /** `KeyboardEvent.code` held to whisper to the selected participants. */
+  whisperKey: string;
+  /** Noise gate level (0..1) that opens the mic in voice-activated mode. */
+  gateThreshold: number;
+};
+
+export type AudioProcessingSettings = {
+  /** Browser capture constraints; changing them reopens the microphone. */
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  highPassEnabled: boolean;
+  /** Cutoff in Hz; rumble and handling noise below it is removed. */
+  highPassFrequency: number;
+  noiseGateEnabled: boolean;
+  /** Level (0..1) below which the mic is silenced. */
+  noiseGateThreshold: number;
+  compressorEnabled: boolean;
+  /** 0..2, applied last, where 1 is unchanged. */
+  inputGain: number;
+};
+
+export type ConnectionQuality = "good" | "fair" | "poor" | "unknown";
+
+export type IceCandidateType = "host" | "srflx" | "prflx" | "relay";
+
+/** One `getStats()` sample for the connection to a remote participant. */
+export type ConnectionStats = {
+  quality: ConnectionQuality;
+  rttMs?: number;
+  jitterMs?: number;
+  /** Share of incoming packets lost since the previous sample. */
+  packetLossPercent?: number;
+  inboundKbps?: number;
+  outboundKbps?: number;
+  /** Selected ICE candidate pair; "relay" on either side means traffic goes through TURN. */
+  localCandidateType?: IceCandidateType;
+  remoteCandidateType?: IceCandidateType;
 };
 
 export type ConnectArgs = {
   userId: string;
+  roomId: string;
+  /** Signed join token for signaling servers that require one. */
+  token?: string;
+};
+
+export type RolloffModel = "linear" | "inverse" | "exponential";
+
+export type ProximitySettings = {
+  enabled: boolean;
+  rolloff: RolloffModel;
+  /** Distance (studs) at which attenuation starts. */
+  refDistance: number;
+  /** Hearing radius; remote voices are silent at or beyond it. */
+  maxDistance: number;
+  rolloffFactor: number;
+  stereoPanning: boolean;
+};
+
+/** Which remote participants a client keeps calls open to; see `selectCallPeers`. */
+export type CallCullingSettings = {
+  /** Limit calls by distance; without it only `maxCalls` applies. */
+  enabled: boolean;
+  /** Studs; calls open to anyone within it. Follows the proximity hearing radius. */
+  hearingRadius: number;
+  /** Also keep calls to this many nearest participants, however far away. */
+  nearestCount: number;
+  /** Studs an open call may drift past the cutoffs before it is closed. */
+  hysteresis: number;
+  /** Hard cap on concurrent calls for this client. */
+  maxCalls: number;
 };
@@ -0,0 +1,94 @@
+import type { Express } from "express";
+import { requireBearerSecret } from "./gameAuth.js";
+import { listActiveBans, removeBan } from "./moderation.js";
+import { banUser, kickUser, setUserServerMuted } from "./signaling.js";
+import type { RoomStore } from "./store.js";
+import type { SignalingServer } from "./types.js";
+
+const DEFAULT_BAN_SECONDS = 60 * 60;
+const MAX_BAN_SECONDS = 30 * 24 * 60 * 60;
+
+// Express types route params as string | string[] once middleware is in the chain.
+function param(value: string | string[]): string {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function readUserId(body: unknown): string {
+  const userId = (body as { userId?: unknown } | undefined)?.userId;
+  return typeof userId === "string" ? userId.trim() : "";
+}
+
+/**
+ * Moderation for operators and bots, authenticated with
+ * `Authorization: Bearer <ADMIN_API_KEY>`. Targets are user ids, not sockets.
+ */
+export function registerAdminRoutes(
+  app: Express,
+  io: SignalingServer,
+  store: RoomStore,
+  adminKey: string | undefined
+): void {
+  const requireAdmin = requireBearerSecret(adminKey, "Admin");
+
+  app.get("/admin/rooms/:roomId/bans", requireAdmin, async (req, res) => {
+    res.json({ bans: await listActiveBans(store, param(req.params.roomId)) });
+  });
+
+  app.post("/admin/rooms/:roomId/bans", requireAdmin, async (req, res) => {
+    const userId = readUserId(req.body);
+    const durationSeconds = Number(req.body?.durationSeconds ?? DEFAULT_BAN_SECONDS);
+    if (!userId || !Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+      res.status(400).json({ error: "userId and a positive durationSeconds are required." });
+      return;
+    }
+    const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+    const kicked = await banUser(
+      io,
+      param(req.params.roomId),
+      userId,
+      Math.min(durationSeconds, MAX_BAN_SECONDS),
+      "admin",
+      reason || undefined
+    );
+    res.status(201).json({ userId, kicked });
+  });
+
+  app.delete("/admin/rooms/:roomId/bans/:userId", requireAdmin, async (req, res) => {
+    if (!(await removeBan(store, param(req.params.roomId), param(req.params.userId)))) {
+      res.status(404).json({ error: "No ban for that user in this room." });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  app.post("/admin/rooms/:roomId/kick", requireAdmin, async (req, res) => {
+    const userId = readUserId(req.body);
+    if (!userId) {
+      res.status(400).json({ error: "userId is required." });
+      return;
+    }
+    const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+    const kicked = await kickUser(
+      io,
+      param(req.params.roomId),
+      userId,
+      reason || "You were removed from the room by an administrator."
+    );
+    res.json({ userId, kicked });
+  });
+
+  app.post("/admin/rooms/:roomId/mute", requireAdmin, async (req, res) => {
+    const userId = readUserId(req.body);
+    if (!userId || typeof req.body?.muted !== "boolean") {
+      res.status(400).json({ error: "userId and a boolean muted are required." });
+      return;
+    }
+    const affected = await setUserServerMuted(
+      io,
+      param(req.params.roomId),
+      userId,
+      req.body.muted
+    );
+    res.json({ userId, muted: req.body.muted, affected });
+  });
+}
@@ -0,0 +1,173 @@
+import { createHmac } from "crypto";
+import type { Express, RequestHandler } from "express";
+import { readBearerToken, secretsMatch } from "./gameAuth.js";
+import { createRateLimiter } from "./rateLimit.js";
+import type {
+  AuthOptions,
+  JoinTokenClaims,
+  JoinTokenResult,
+  ParticipantRole,
+} from "./types.js";
+
+const JWT_HEADER = { alg: "HS256", typ: "JWT" };
+const JOIN_ROLES: ParticipantRole[] = ["member", "moderator"];
+const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60;
+
+const guestTokenLimiter = createRateLimiter(20, 60 * 1000);
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function sign(input: string, secret: string): string {
+  return createHmac("sha256", secret).update(input).digest("base64url");
+}
+
+/** Issues an HS256 JWT, so any backend with a JWT library can mint compatible tokens. */
+export function signJoinToken(
+  claims: Pick<JoinTokenClaims, "sub" | "rooms" | "role">,
+  secret: string,
+  ttlSeconds: number
+): { token: string; expiresAt: number } {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload: JoinTokenClaims = { ...claims, iat, exp: iat + ttlSeconds };
+  const unsigned = `${encodeSegment(JWT_HEADER)}.${encodeSegment(payload)}`;
+  return { token: `${unsigned}.${sign(unsigned, secret)}`, expiresAt: payload.exp * 1000 };
+}
+
+function isJoinTokenClaims(value: unknown): value is JoinTokenClaims {
+  const claims = value as Partial<JoinTokenClaims> | null;
+  return (
+    typeof claims?.sub === "string" &&
+    claims.sub.trim().length > 0 &&
+    Array.isArray(claims.rooms) &&
+    claims.rooms.every((room) => typeof room === "string") &&
+    JOIN_ROLES.includes(claims.role as ParticipantRole) &&
+    typeof claims.exp === "number"
+  );
+}
+
+export function verifyJoinToken(token: string, secret: string): JoinTokenResult {
+  const invalid: JoinTokenResult = {
+    ok: false,
+    code: "TOKEN_INVALID",
+    message: "Join token is malformed or its signature does not match.",
+  };
+
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return invalid;
+  }
+  const [header, payload, signature] = parts;
+  if (!secretsMatch(signature, sign(`${header}.${payload}`, secret))) {
+    return invalid;
+  }
+
+  let claims: unknown;
+  try {
+    const decodedHeader = JSON.parse(Buffer.from(header, "base64url").toString("utf8"));
+    // Refuse anything but the algorithm we sign with (e.g. "none").
+    if (decodedHeader?.alg !== JWT_HEADER.alg) {
+      return invalid;
+    }
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return invalid;
+  }
+  if (!isJoinTokenClaims(claims)) {
+    return invalid;
+  }
+  if (claims.exp * 1000 <= Date.now()) {
+    return { ok: false, code: "TOKEN_EXPIRED", message: "Join token has expired." };
+  }
+  return { ok: true, claims };
+}
+
+export function tokenAllowsRoom(claims: JoinTokenClaims, roomId: string): boolean {
+  return claims.rooms.includes("*") || claims.rooms.includes(roomId);
+}
+
+/**
+ * Resolves the calling web user into `res.locals.userId`: from a bearer join
+ * token when tokens are enabled, otherwise from the `userId` body field.
+ */
+export function requireUser(options: AuthOptions): RequestHandler {
+  return (req, res, next) => {
+    if (!options.joinTokenSecret) {
+      const userId = typeof req.body?.userId === "string" ? req.body.userId.trim() : "";
+      if (!userId) {
+        res.status(400).json({ error: "userId is required." });
+        return;
+      }
+      res.locals.userId = userId;
+      next();
+      return;
+    }
+
+    const result = verifyJoinToken(
+      readBearerToken(req.header("authorization")),
+      options.joinTokenSecret
+    );
+    if (!result.ok) {
+      res.status(401).json({ error: result.message, code: result.code });
+      return;
+    }
+    res.locals.userId = result.claims.sub;
+    next();
+  };
+}
+
+function parseRooms(raw: unknown): string[] | null {
+  if (raw === undefined) {
+    return ["*"];
+  }
+  if (!Array.isArray(raw) || raw.length === 0 || !raw.every((room) => typeof room === "string")) {
+    return null;
+  }
+  return raw.map((room: string) => room.trim()).filter(Boolean);
+}
+
+/**
+ * `POST /auth/token` mints join tokens. Trusted backends authenticate with the
+ * issuer key and may pick any role; guests (if allowed) only get member tokens.
+ */
+export function registerAuth(app: Express, options: AuthOptions): void {
+  const ttlSeconds = options.tokenTtlSeconds ?? DEFAULT_TOKEN_TTL_SECONDS;
+
+  app.post("/auth/token", (req, res) => {
+    const secret = options.joinTokenSecret;
+    if (!secret) {
+      res.status(503).json({ error: "Join tokens are not enabled on this server." });
+      return;
+    }
+
+    const provided = readBearerToken(req.header("authorization"));
+    const trusted = Boolean(
+      options.issuerKey && provided && secretsMatch(provided, options.issuerKey)
+    );
+    if (!trusted && !options.allowGuestTokens) {
+      res.status(401).json({ error: "Invalid token issuer credentials." });
+      return;
+    }
+    if (!trusted && !guestTokenLimiter.take(req.ip ?? "unknown")) {
+      res.status(429).json({ error: "Too many token requests. Try again later." });
+      return;
+    }
+
+    const userId = typeof req.body?.userId === "string" ? req.body.userId.trim() : "";
+    const rooms = parseRooms(req.body?.rooms);
+    const role: unknown = req.body?.role ?? "member";
+    if (!userId || !rooms || !JOIN_ROLES.includes(role as ParticipantRole)) {
+      res.status(400).json({ error: "userId, optional rooms[] and a valid role are required." });
+      return;
+    }
+    if (!trusted && role !== "member") {
+      res.status(403).json({ error: "Guests can only request member tokens." });
+      return;
+    }
+
+    res.json(
+      signJoinToken({ sub: userId, rooms, role: role as ParticipantRole }, secret, ttlSeconds)
+    );
+  });
+}
@@ -0,0 +1,59 @@
+import { randomUUID } from "crypto";
+import { createRateLimiter } from "./rateLimit.js";
+import type { RoomStore } from "./store.js";
+import type { ChatMessage } from "./types.js";
+
+export const CHAT_MAX_LENGTH = 500;
+export const CHAT_HISTORY_LIMIT = 100;
+
+// Keyed by "roomId:userId", so opening several tabs does not multiply the allowance.
+// Kept per instance: with several instances, tabs on different ones each get it.
+const chatLimiter = createRateLimiter(5, 5 * 1000);
+
+export type ChatPostResult =
+  | { ok: true; message: ChatMessage }
+  | { ok: false; code: "INVALID_MESSAGE" | "RATE_LIMITED"; message: string };
+
+/** The retained messages of a room, oldest first. */
+export function getChatHistory(store: RoomStore, roomId: string): Promise<ChatMessage[]> {
+  return store.listChatMessages(roomId);
+}
+
+/** Validates, rate limits and stores a message; the oldest one falls off past the limit. */
+export async function postChatMessage(
+  store: RoomStore,
+  roomId: string,
+  socketId: string,
+  userId: string,
+  rawText: unknown
+): Promise<ChatPostResult> {
+  const text = typeof rawText === "string" ? rawText.trim() : "";
+  if (!text || text.length > CHAT_MAX_LENGTH) {
+    return {
+      ok: false,
+      code: "INVALID_MESSAGE",
+      message: `Messages must be 1-${CHAT_MAX_LENGTH} characters.`,
+    };
+  }
+  if (!chatLimiter.take(`${roomId}:${userId}`)) {
+    return { ok: false, code: "RATE_LIMITED", message: "You are sending messages too quickly." };
+  }
+
+  const message: ChatMessage = { id: randomUUID(), socketId, userId, text, sentAt: Date.now() };
+  await store.appendChatMessage(roomId, message, CHAT_HISTORY_LIMIT);
+  return { ok: true, message };
+}
+
+/** @returns whether the message was in the room's history */
+export function deleteChatMessage(
+  store: RoomStore,
+  roomId: string,
+  messageId: string
+): Promise<boolean> {
+  return store.deleteChatMessage(roomId, messageId);
+}
+
+/** Chat does not outlive the room. */
+export function clearChatHistory(store: RoomStore, roomId: string): Promise<void> {
+  return store.clearChatHistory(roomId);
+}
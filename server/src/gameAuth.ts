@@ -0,0 +1,37 @@
+import { timingSafeEqual } from "crypto";
+import type { RequestHandler } from "express";
+
+export function secretsMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function readBearerToken(header: string | undefined): string {
+  return header?.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+}
+
+/** Guards server-to-server routes with `Authorization: Bearer <secret>`. */
+export function requireBearerSecret(secret: string | undefined, caller: string): RequestHandler {
+  return (req, res, next) => {
+    if (!secret) {
+      res.status(503).json({ error: `${caller} API is not configured.` });
+      return;
+    }
+
+    const provided = readBearerToken(req.header("authorization"));
+    if (!provided || !secretsMatch(provided, secret)) {
+      res.status(401).json({ error: `Invalid ${caller.toLowerCase()} credentials.` });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Guards routes called by Roblox game servers. They authenticate with
+ * `Authorization: Bearer <GAME_SERVER_SECRET>` from HttpService.
+ */
+export function requireGameServerSecret(secret: string | undefined): RequestHandler {
+  return requireBearerSecret(secret, "Game server");
+}
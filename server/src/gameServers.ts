@@ -0,0 +1,164 @@
+import type { Express } from "express";
+import { requireGameServerSecret } from "./gameAuth.js";
+import { logStoreError, type RoomStore } from "./store.js";
+import type { GameServerOptions, GameServerRecord } from "./types.js";
+
+// Roblox JobIds are GUIDs; the "rbx-" room id that wraps one must stay a valid room id.
+const JOB_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9-]{0,49}$/;
+// Largest Roblox server size.
+const MAX_PLAYERS_PER_SERVER = 700;
+const HEARTBEAT_SWEEP_INTERVAL_MS = 5000;
+
+export function gameServerRoomId(jobId: string): string {
+  return `rbx-${jobId.toLowerCase()}`;
+}
+
+/** The room of the game server a Roblox player is currently in, if it registered. */
+export async function getPlayerGameRoom(
+  store: RoomStore,
+  robloxUserId: number
+): Promise<string | undefined> {
+  const jobId = await store.getPlayerGameServer(robloxUserId);
+  return jobId ? (await store.getGameServer(jobId))?.roomId : undefined;
+}
+
+function parseJobId(raw: unknown): string | null {
+  return typeof raw === "string" && JOB_ID_PATTERN.test(raw.trim()) ? raw.trim() : null;
+}
+
+function isPositiveId(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) > 0;
+}
+
+/** @returns null unless `raw` is a list of Roblox user ids */
+function parsePlayers(raw: unknown): number[] | null {
+  if (!Array.isArray(raw) || raw.length > MAX_PLAYERS_PER_SERVER || !raw.every(isPositiveId)) {
+    return null;
+  }
+  return Array.from(new Set(raw));
+}
+
+/**
+ * Replaces a server's player list. Players new to this server are moved to
+ * its room; players who left are only released if no other server has
+ * claimed them meanwhile (after a teleport the new server often reports first).
+ */
+async function setPlayers(
+  server: GameServerRecord,
+  players: number[],
+  options: GameServerOptions
+): Promise<void> {
+  const { store } = options;
+  const current = new Set(players);
+  for (const robloxUserId of server.players) {
+    if (
+      !current.has(robloxUserId) &&
+      (await store.releasePlayerGameServer(robloxUserId, server.jobId))
+    ) {
+      options.onPlayerMoved(robloxUserId, null);
+    }
+  }
+  server.players = players;
+  await store.saveGameServer(server);
+  for (const robloxUserId of current) {
+    if (await store.setPlayerGameServer(robloxUserId, server.jobId)) {
+      options.onPlayerMoved(robloxUserId, server.roomId);
+    }
+  }
+}
+
+/** Only the caller that actually removed the server closes its room. */
+async function removeServer(jobId: string, options: GameServerOptions): Promise<void> {
+  const { store } = options;
+  const server = await store.getGameServer(jobId);
+  if (!server || !(await store.removeGameServer(jobId))) {
+    return;
+  }
+  for (const robloxUserId of server.players) {
+    await store.releasePlayerGameServer(robloxUserId, jobId);
+  }
+  options.onServerClosed(server.roomId);
+}
+
+/**
+ * Game server registry: each Roblox server instance (JobId) gets its own voice
+ * room, and its heartbeats say which players are in it, so linked web users
+ * follow their player from server to server.
+ */
+export function registerGameServers(app: Express, gameOptions: GameServerOptions): void {
+  const { store } = gameOptions;
+  const heartbeatTimeoutMs = gameOptions.heartbeatTimeoutMs ?? 30 * 1000;
+  const requireSecret = requireGameServerSecret(gameOptions.secret);
+
+  app.post("/game/servers/register", requireSecret, async (req, res) => {
+    const jobId = parseJobId(req.body?.jobId);
+    const placeId: unknown = req.body?.placeId;
+    const players = parsePlayers(req.body?.players ?? []);
+    if (!jobId || !isPositiveId(placeId)) {
+      res.status(400).json({ error: "jobId and a positive integer placeId are required." });
+      return;
+    }
+    if (!players) {
+      res.status(400).json({
+        error: `players must be at most ${MAX_PLAYERS_PER_SERVER} Roblox user ids.`,
+      });
+      return;
+    }
+
+    // Registering again (e.g. after a 404 heartbeat) keeps the same room.
+    const server: GameServerRecord = (await store.getGameServer(jobId)) ?? {
+      jobId,
+      placeId,
+      roomId: gameServerRoomId(jobId),
+      lastHeartbeatAt: 0,
+      players: [],
+    };
+    server.placeId = placeId;
+    server.lastHeartbeatAt = Date.now();
+    await setPlayers(server, players, gameOptions);
+    res.json({ roomId: server.roomId, heartbeatTimeoutMs });
+  });
+
+  app.post("/game/servers/heartbeat", requireSecret, async (req, res) => {
+    const jobId = parseJobId(req.body?.jobId);
+    const players = parsePlayers(req.body?.players);
+    if (!jobId || !players) {
+      res.status(400).json({
+        error: `jobId and players (at most ${MAX_PLAYERS_PER_SERVER} Roblox user ids) are required.`,
+      });
+      return;
+    }
+    const server = await store.getGameServer(jobId);
+    if (!server) {
+      res.status(404).json({ error: "Game server is not registered." });
+      return;
+    }
+
+    server.lastHeartbeatAt = Date.now();
+    await setPlayers(server, players, gameOptions);
+    res.json({ roomId: server.roomId });
+  });
+
+  app.post("/game/servers/deregister", requireSecret, async (req, res) => {
+    const jobId = parseJobId(req.body?.jobId);
+    if (!jobId) {
+      res.status(400).json({ error: "jobId is required." });
+      return;
+    }
+    await removeServer(jobId, gameOptions);
+    res.json({ ok: true });
+  });
+
+  // Every instance sweeps; `removeServer` makes sure each room is closed once.
+  const sweep = async (): Promise<void> => {
+    const now = Date.now();
+    for (const server of await store.listGameServers()) {
+      if (now - server.lastHeartbeatAt >= heartbeatTimeoutMs) {
+        await removeServer(server.jobId, gameOptions);
+      }
+    }
+  };
+  setInterval(() => {
+    sweep().catch(logStoreError);
+  }, HEARTBEAT_SWEEP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,67 @@
+import { createHmac } from "crypto";
+import type { Express } from "express";
+import { requireUser } from "./auth.js";
+import { createRateLimiter } from "./rateLimit.js";
+import type { IceServer, IceServerOptions, IceServerResponse } from "./types.js";
+
+const DEFAULT_TURN_TTL_SECONDS = 60 * 60;
+
+const credentialLimiter = createRateLimiter(30, 60 * 1000);
+
+/**
+ * TURN REST API credentials (draft-uberti-behave-turn-rest): the username is
+ * "<expiry unix seconds>:<userId>" and the password is base64 HMAC-SHA1 of it,
+ * so the TURN server can check them with the shared secret alone.
+ */
+export function createTurnCredentials(
+  userId: string,
+  secret: string,
+  ttlSeconds: number
+): { username: string; credential: string; expiresAt: number } {
+  const expiry = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const username = `${expiry}:${userId}`;
+  const credential = createHmac("sha1", secret).update(username).digest("base64");
+  return { username, credential, expiresAt: expiry * 1000 };
+}
+
+/** Splits a comma-separated env value into trimmed, non-empty entries. */
+export function parseUrlList(raw: string | undefined): string[] {
+  return (raw ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+/**
+ * `POST /ice-servers` returns the STUN/TURN list for `RTCPeerConnection`,
+ * with TURN credentials that expire after the configured TTL.
+ */
+export function registerIceServers(app: Express, options: IceServerOptions): void {
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_TURN_TTL_SECONDS;
+
+  app.post("/ice-servers", requireUser(options.auth), (_req, res) => {
+    const userId: string = res.locals.userId;
+    if (!credentialLimiter.take(userId)) {
+      res.status(429).json({ error: "Too many ICE server requests. Try again later." });
+      return;
+    }
+
+    const iceServers: IceServer[] = [];
+    if (options.stunUrls.length > 0) {
+      iceServers.push({ urls: options.stunUrls });
+    }
+
+    let expiresAt: number | null = null;
+    if (options.turnSecret && options.turnUrls.length > 0) {
+      const turn = createTurnCredentials(userId, options.turnSecret, ttlSeconds);
+      iceServers.push({
+        urls: options.turnUrls,
+        username: turn.username,
+        credential: turn.credential,
+      });
+      expiresAt = turn.expiresAt;
+    }
+
+    res.json({ iceServers, expiresAt } satisfies IceServerResponse);
+  });
+}
@@ -3,7 +3,22 @@ import dotenv from "dotenv";
 import express from "express";
 import http from "http";
 import { Server } from "socket.io";
-import { registerSignalingHandlers } from "./signaling.js";
+import { registerAdminRoutes } from "./admin.js";
+import { registerAuth } from "./auth.js";
+import { registerGameServers } from "./gameServers.js";
+import { parseUrlList, registerIceServers } from "./ice.js";
+import { registerLinking } from "./linking.js";
+import { registerPeerBroker } from "./peerBroker.js";
+import { registerPositionIngest } from "./positions.js";
+import { connectRedisStore } from "./redisStore.js";
+import {
+  applyGameServerMove,
+  applyRobloxLink,
+  closeRoom,
+  registerSignalingHandlers,
+} from "./signaling.js";
+import { createMemoryStore, logStoreError } from "./store.js";
+import type { SignalingServer } from "./types.js";
 
 dotenv.config();
 
@@ -12,6 +27,17 @@ const server = http.createServer(app);
 
 const port = Number(process.env.PORT ?? 4000);
 const clientOrigin = process.env.CLIENT_ORIGIN ?? "http://localhost:5173";
+const peerPath = process.env.PEER_PATH ?? "/peerjs";
+const peerKey = process.env.PEER_KEY ?? "peerjs";
+const gameServerSecret = process.env.GAME_SERVER_SECRET;
+const adminApiKey = process.env.ADMIN_API_KEY || undefined;
+const redisUrl = process.env.REDIS_URL || undefined;
+const authOptions = {
+  joinTokenSecret: process.env.JOIN_TOKEN_SECRET || undefined,
+  tokenTtlSeconds: Number(process.env.JOIN_TOKEN_TTL_SECONDS || 3600),
+  issuerKey: process.env.TOKEN_ISSUER_KEY || undefined,
+  allowGuestTokens: process.env.ALLOW_GUEST_TOKENS === "true",
+};
 
 app.use(cors({ origin: clientOrigin }));
 app.use(express.json());
@@ -20,14 +46,58 @@ app.get("/health", (_req, res) => {
   res.json({ ok: true });
 });
 
-const io = new Server(server, {
+const io: SignalingServer = new Server(server, {
+  // Signaling messages are small; the largest legitimate one is an SDP offer.
+  maxHttpBufferSize: 64 * 1024,
   cors: {
     origin: clientOrigin,
     methods: ["GET", "POST"],
   },
 });
 
-registerSignalingHandlers(io);
+// With Redis, several instances behind a load balancer share rooms.
+const store = redisUrl
+  ? await connectRedisStore({
+      url: redisUrl,
+      keyPrefix: process.env.REDIS_KEY_PREFIX || undefined,
+    })
+  : createMemoryStore();
+
+registerSignalingHandlers(io, {
+  auth: authOptions,
+  resumeGraceMs: Number(process.env.RESUME_GRACE_SECONDS || 30) * 1000,
+  store,
+});
+registerAuth(app, authOptions);
+registerAdminRoutes(app, io, store, adminApiKey);
+registerPeerBroker(app, server, { path: peerPath, key: peerKey });
+registerPositionIngest(app, io, { store, secret: gameServerSecret });
+registerGameServers(app, {
+  store,
+  secret: gameServerSecret,
+  heartbeatTimeoutMs: Number(process.env.GAME_SERVER_HEARTBEAT_TIMEOUT_SECONDS || 30) * 1000,
+  onPlayerMoved: (robloxUserId, roomId) => {
+    applyGameServerMove(io, robloxUserId, roomId).catch(logStoreError);
+  },
+  onServerClosed: (roomId) => {
+    closeRoom(io, roomId, "This Roblox server has shut down.").catch(logStoreError);
+  },
+});
+registerIceServers(app, {
+  stunUrls: parseUrlList(process.env.STUN_URLS ?? "stun:stun.l.google.com:19302"),
+  turnUrls: parseUrlList(process.env.TURN_URLS),
+  turnSecret: process.env.TURN_SECRET || undefined,
+  ttlSeconds: Number(process.env.TURN_TTL_SECONDS || 3600),
+  auth: authOptions,
+});
+registerLinking(app, {
+  store,
+  secret: gameServerSecret,
+  auth: authOptions,
+  onLinked: (userId, robloxUserId) => {
+    applyRobloxLink(io, userId, robloxUserId).catch(logStoreError);
+  },
+});
 
 server.listen(port, () => {
   // eslint-disable-next-line no-console
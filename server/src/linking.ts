@@ -0,0 +1,94 @@
+import { randomInt } from "crypto";
+import type { Express } from "express";
+import { requireUser } from "./auth.js";
+import { requireGameServerSecret } from "./gameAuth.js";
+import { createRateLimiter } from "./rateLimit.js";
+import type { RoomStore } from "./store.js";
+import type { LinkingOptions } from "./types.js";
+
+// No 0/O or 1/I so codes are easy to read off one screen and type into another.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+// Kept per instance, like the other rate limits: each one allows this much.
+const codeRequestLimiter = createRateLimiter(5, 10 * 60 * 1000);
+const confirmLimiter = createRateLimiter(10, 60 * 1000);
+
+export function getLinkedRobloxUserId(
+  store: RoomStore,
+  userId: string
+): Promise<number | undefined> {
+  return store.getLinkedRobloxUserId(userId);
+}
+
+function generateCode(): string {
+  return Array.from(
+    { length: CODE_LENGTH },
+    () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+  ).join("");
+}
+
+/** Only the newest code per user stays valid; the store drops the older one. */
+async function issueCode(
+  store: RoomStore,
+  userId: string,
+  ttlMs: number
+): Promise<{ code: string; expiresAt: number }> {
+  let code = generateCode();
+  while (!(await store.addLinkCode(code, userId, ttlMs))) {
+    code = generateCode();
+  }
+  return { code, expiresAt: Date.now() + ttlMs };
+}
+
+/**
+ * Roblox account linking: the web user requests a short one-time code, types
+ * it in game, and the game server confirms it on the player's behalf.
+ */
+export function registerLinking(app: Express, linkingOptions: LinkingOptions): void {
+  const { store } = linkingOptions;
+  const codeTtlMs = linkingOptions.codeTtlMs ?? 5 * 60 * 1000;
+
+  app.post("/link/code", requireUser(linkingOptions.auth), async (_req, res) => {
+    const userId: string = res.locals.userId;
+    if (!codeRequestLimiter.take(userId)) {
+      res.status(429).json({ error: "Too many link codes requested. Try again later." });
+      return;
+    }
+
+    const { code, expiresAt } = await issueCode(store, userId, codeTtlMs);
+    res.json({ code, expiresAt });
+  });
+
+  app.get("/link/status/:userId", async (req, res) => {
+    res.json({ robloxUserId: (await getLinkedRobloxUserId(store, req.params.userId)) ?? null });
+  });
+
+  app.post(
+    "/game/link/confirm",
+    requireGameServerSecret(linkingOptions.secret),
+    async (req, res) => {
+      const code = typeof req.body?.code === "string" ? req.body.code.trim().toUpperCase() : "";
+      const robloxUserId: unknown = req.body?.robloxUserId;
+      if (!code || !Number.isSafeInteger(robloxUserId) || (robloxUserId as number) <= 0) {
+        res.status(400).json({ error: "code and a positive integer robloxUserId are required." });
+        return;
+      }
+      if (!confirmLimiter.take(String(robloxUserId))) {
+        res.status(429).json({ error: "Too many link attempts for this player." });
+        return;
+      }
+
+      const userId = await store.takeLinkCode(code);
+      if (!userId) {
+        res.status(404).json({ error: "Code is invalid or expired." });
+        return;
+      }
+
+      // One Roblox account per web user and vice versa; a new link replaces both sides.
+      await store.linkRobloxAccount(userId, robloxUserId as number);
+      linkingOptions.onLinked(userId, robloxUserId as number);
+      res.json({ userId, robloxUserId });
+    }
+  );
+}
@@ -0,0 +1,55 @@
+import type { RoomStore } from "./store.js";
+import type { BanRecord } from "./types.js";
+
+/** The ban currently keeping `userId` out of `roomId`, if it has not expired. */
+export async function getActiveBan(
+  store: RoomStore,
+  roomId: string,
+  userId: string
+): Promise<BanRecord | undefined> {
+  const ban = await store.getBan(roomId, userId);
+  if (!ban) {
+    return undefined;
+  }
+  if (ban.until <= Date.now()) {
+    await store.removeBan(roomId, userId);
+    return undefined;
+  }
+  return ban;
+}
+
+export function addBan(store: RoomStore, roomId: string, ban: BanRecord): Promise<void> {
+  return store.setBan(roomId, ban);
+}
+
+/** @returns whether a ban was lifted */
+export function removeBan(store: RoomStore, roomId: string, userId: string): Promise<boolean> {
+  return store.removeBan(roomId, userId);
+}
+
+export async function listActiveBans(store: RoomStore, roomId: string): Promise<BanRecord[]> {
+  const now = Date.now();
+  const active: BanRecord[] = [];
+  for (const ban of await store.listBans(roomId)) {
+    if (ban.until <= now) {
+      await store.removeBan(roomId, ban.userId);
+    } else {
+      active.push(ban);
+    }
+  }
+  return active;
+}
+
+/** Server mutes are kept per user, so leaving and rejoining does not lift them. */
+export function isServerMuted(store: RoomStore, roomId: string, userId: string): Promise<boolean> {
+  return store.isServerMuted(roomId, userId);
+}
+
+export function setServerMute(
+  store: RoomStore,
+  roomId: string,
+  userId: string,
+  muted: boolean
+): Promise<void> {
+  return store.setServerMute(roomId, userId, muted);
+}
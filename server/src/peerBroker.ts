@@ -0,0 +1,231 @@
+import { randomUUID } from "crypto";
+import type { Express } from "express";
+import type http from "http";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { PeerBrokerOptions } from "./types.js";
+
+type BrokerClient = {
+  id: string;
+  token: string;
+  socket: WebSocket;
+  lastSeen: number;
+};
+
+type BrokerMessage = {
+  type: string;
+  src?: string;
+  dst?: string;
+  payload?: unknown;
+};
+
+type QueuedMessage = {
+  message: BrokerMessage;
+  queuedAt: number;
+};
+
+const clients: Map<string, BrokerClient> = new Map();
+const queuedMessages: Map<string, QueuedMessage[]> = new Map();
+
+// Same rule the PeerJS client applies to ids before connecting.
+const PEER_ID_PATTERN = /^[A-Za-z0-9]+(?:[ _-][A-Za-z0-9]+)*$/;
+const RELAYED_TYPES = new Set(["OFFER", "ANSWER", "CANDIDATE", "LEAVE", "EXPIRE"]);
+const MAX_QUEUED_PER_PEER = 100;
+const SWEEP_INTERVAL_MS = 1000;
+
+function send(socket: WebSocket, message: BrokerMessage): void {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function rejectSocket(socket: WebSocket, type: string, msg: string): void {
+  send(socket, { type, payload: { msg } });
+  socket.close();
+}
+
+function allocatePeerId(): string {
+  let id = randomUUID();
+  while (clients.has(id)) {
+    id = randomUUID();
+  }
+  return id;
+}
+
+function relay(from: BrokerClient, message: BrokerMessage): void {
+  const dst = message.dst;
+  if (!dst) {
+    // A LEAVE without a destination is the client saying goodbye.
+    if (message.type === "LEAVE") {
+      from.socket.close();
+    }
+    return;
+  }
+
+  const outgoing: BrokerMessage = {
+    type: message.type,
+    src: from.id,
+    dst,
+    payload: message.payload,
+  };
+  const target = clients.get(dst);
+  if (target) {
+    send(target.socket, outgoing);
+    return;
+  }
+
+  if (message.type === "LEAVE" || message.type === "EXPIRE") {
+    return;
+  }
+  // The destination may still be connecting; hold the message until it
+  // shows up or the expire timeout tells the sender it is unavailable.
+  const queue = queuedMessages.get(dst) ?? [];
+  if (queue.length < MAX_QUEUED_PER_PEER) {
+    queue.push({ message: outgoing, queuedAt: Date.now() });
+    queuedMessages.set(dst, queue);
+  }
+}
+
+function deliverQueued(client: BrokerClient): void {
+  const queue = queuedMessages.get(client.id);
+  if (!queue) {
+    return;
+  }
+  queuedMessages.delete(client.id);
+  for (const { message } of queue) {
+    send(client.socket, message);
+  }
+}
+
+function sweep(options: Required<PeerBrokerOptions>): void {
+  const now = Date.now();
+
+  for (const [dst, queue] of queuedMessages.entries()) {
+    const fresh = queue.filter(({ message, queuedAt }) => {
+      if (now - queuedAt < options.expireTimeoutMs) {
+        return true;
+      }
+      const sender = message.src ? clients.get(message.src) : undefined;
+      if (sender) {
+        send(sender.socket, { type: "EXPIRE", src: dst, dst: sender.id });
+      }
+      return false;
+    });
+    if (fresh.length === 0) {
+      queuedMessages.delete(dst);
+    } else {
+      queuedMessages.set(dst, fresh);
+    }
+  }
+
+  for (const client of clients.values()) {
+    if (now - client.lastSeen > options.aliveTimeoutMs) {
+      client.socket.close();
+    }
+  }
+}
+
+function handleConnection(
+  socket: WebSocket,
+  url: URL,
+  options: Required<PeerBrokerOptions>
+): void {
+  const id = url.searchParams.get("id") ?? "";
+  const token = url.searchParams.get("token") ?? "";
+  const key = url.searchParams.get("key") ?? "";
+
+  if (!id || !token || !key) {
+    rejectSocket(socket, "ERROR", "No id, token, or key supplied to websocket server");
+    return;
+  }
+  if (key !== options.key) {
+    rejectSocket(socket, "INVALID-KEY", "Invalid key provided");
+    return;
+  }
+  if (!PEER_ID_PATTERN.test(id)) {
+    rejectSocket(socket, "ERROR", "Invalid id");
+    return;
+  }
+
+  const existing = clients.get(id);
+  if (existing && existing.token !== token) {
+    rejectSocket(socket, "ID-TAKEN", "ID is taken");
+    return;
+  }
+  if (!existing && clients.size >= options.maxClients) {
+    rejectSocket(socket, "ERROR", "Server has reached its concurrent user limit");
+    return;
+  }
+
+  // Same id and token is the client reconnecting; the new socket wins.
+  existing?.socket.close();
+  const client: BrokerClient = { id, token, socket, lastSeen: Date.now() };
+  clients.set(id, client);
+
+  socket.on("message", (raw) => {
+    client.lastSeen = Date.now();
+    let message: BrokerMessage;
+    try {
+      message = JSON.parse(raw.toString()) as BrokerMessage;
+    } catch {
+      return;
+    }
+    if (message?.type && RELAYED_TYPES.has(message.type)) {
+      relay(client, message);
+    }
+  });
+
+  socket.on("close", () => {
+    if (clients.get(id) === client) {
+      clients.delete(id);
+    }
+  });
+
+  send(socket, { type: "OPEN" });
+  deliverQueued(client);
+}
+
+/**
+ * Mounts a PeerJS-protocol broker on the existing HTTP server so browsers can
+ * use `new Peer(..., { host, port, path })` against our own infrastructure
+ * instead of the public PeerJS cloud.
+ */
+export function registerPeerBroker(
+  app: Express,
+  server: http.Server,
+  brokerOptions: PeerBrokerOptions
+): void {
+  const options: Required<PeerBrokerOptions> = {
+    key: "peerjs",
+    expireTimeoutMs: 5000,
+    aliveTimeoutMs: 60000,
+    maxClients: 5000,
+    ...brokerOptions,
+  };
+  const basePath = options.path.replace(/\/+$/, "");
+  // PeerJS clients open `${path}peerjs?key=...` whatever their key; `handleConnection` checks it.
+  const socketPath = `${basePath}/peerjs`;
+
+  app.get(`${basePath}/`, (_req, res) => {
+    res.json({
+      name: "PeerJS Server",
+      description: "Embedded PeerJS broker for the voice signaling server",
+    });
+  });
+
+  app.get(`${basePath}/${options.key}/id`, (_req, res) => {
+    res.type("text/plain").send(allocatePeerId());
+  });
+
+  const wss = new WebSocketServer({ noServer: true });
+  server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    // Anything else (e.g. /socket.io/) is left to its own upgrade handler.
+    if (url.pathname !== socketPath) {
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, url, options));
+  });
+
+  const sweepTimer = setInterval(() => sweep(options), SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+}
@@ -0,0 +1,193 @@
+import type { Express } from "express";
+import { requireGameServerSecret } from "./gameAuth.js";
+import { emitTo } from "./signaling.js";
+import { logStoreError, type RoomStore } from "./store.js";
+import type {
+  PositionDelta,
+  PositionIngestOptions,
+  PositionUpdate,
+  SignalingServer,
+  Vector3,
+} from "./types.js";
+
+type SentState = {
+  position?: Vector3;
+  inGame: boolean;
+};
+
+// What this instance last broadcast; with several instances each tracks its own.
+const lastSent: Map<string, SentState> = new Map();
+const dirtyRooms: Set<string> = new Set();
+
+// Movement below this (in studs) is not worth a broadcast.
+const POSITION_EPSILON = 0.1;
+const STALE_SWEEP_INTERVAL_MS = 1000;
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function parseUpdate(raw: unknown): PositionUpdate | null {
+  const entry = raw as Partial<PositionUpdate> | null;
+  const position = entry?.position as Partial<Vector3> | undefined;
+  if (
+    !entry ||
+    !Number.isSafeInteger(entry.robloxUserId) ||
+    (entry.robloxUserId as number) <= 0 ||
+    typeof entry.inGame !== "boolean" ||
+    !position ||
+    !isFiniteNumber(position.x) ||
+    !isFiniteNumber(position.y) ||
+    !isFiniteNumber(position.z)
+  ) {
+    return null;
+  }
+
+  return {
+    robloxUserId: entry.robloxUserId as number,
+    inGame: entry.inGame,
+    position: {
+      x: Math.round(position.x * 100) / 100,
+      y: Math.round(position.y * 100) / 100,
+      z: Math.round(position.z * 100) / 100,
+    },
+  };
+}
+
+function distance(a: Vector3, b: Vector3): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+/** @returns how many live participants the update was applied to */
+async function applyUpdate(store: RoomStore, update: PositionUpdate): Promise<number> {
+  const matches = await store.findParticipantsByRobloxUserId(update.robloxUserId);
+  for (const { roomId, participant } of matches) {
+    await store.updateParticipant(roomId, participant.socketId, (entry) => {
+      entry.position = update.position;
+      entry.inGame = update.inGame;
+      return true;
+    });
+    dirtyRooms.add(roomId);
+  }
+  return matches.length;
+}
+
+/** Report times are in the store, so a player reported to any instance counts as fresh. */
+async function expireStalePlayers(
+  store: RoomStore,
+  now: number,
+  staleAfterMs: number
+): Promise<void> {
+  for (const robloxUserId of await store.takeStalePlayerPositions(now - staleAfterMs)) {
+    for (const { roomId, participant } of await store.findParticipantsByRobloxUserId(
+      robloxUserId
+    )) {
+      const changed = await store.updateParticipant(roomId, participant.socketId, (entry) => {
+        if (!entry.inGame) {
+          return false;
+        }
+        entry.inGame = false;
+        return true;
+      });
+      if (changed) {
+        dirtyRooms.add(roomId);
+      }
+    }
+  }
+
+  for (const socketId of Array.from(lastSent.keys())) {
+    if (!(await store.getSession(socketId))) {
+      lastSent.delete(socketId);
+    }
+  }
+}
+
+async function collectDeltas(store: RoomStore, roomId: string): Promise<PositionDelta[]> {
+  const deltas: PositionDelta[] = [];
+  for (const participant of await store.listParticipants(roomId)) {
+    const previous = lastSent.get(participant.socketId);
+    const inGame = participant.inGame ?? false;
+    const delta: PositionDelta = { socketId: participant.socketId };
+    let changed = false;
+
+    if (!previous || previous.inGame !== inGame) {
+      delta.inGame = inGame;
+      changed = true;
+    }
+    if (
+      participant.position &&
+      (!previous?.position || distance(previous.position, participant.position) >= POSITION_EPSILON)
+    ) {
+      delta.position = participant.position;
+      changed = true;
+    }
+
+    if (changed) {
+      deltas.push(delta);
+      lastSent.set(participant.socketId, {
+        inGame,
+        position: delta.position ?? previous?.position,
+      });
+    }
+  }
+  return deltas;
+}
+
+async function flushDirtyRooms(io: SignalingServer, store: RoomStore): Promise<void> {
+  const roomIds = Array.from(dirtyRooms);
+  dirtyRooms.clear();
+  for (const roomId of roomIds) {
+    const updates = await collectDeltas(store, roomId);
+    if (updates.length > 0) {
+      emitTo(io, roomId, "position-update", { roomId, updates });
+    }
+  }
+}
+
+/**
+ * Lets Roblox game servers POST batched player positions, which are applied to
+ * linked participants and pushed to their rooms as throttled deltas.
+ */
+export function registerPositionIngest(
+  app: Express,
+  io: SignalingServer,
+  ingestOptions: PositionIngestOptions
+): void {
+  const { store } = ingestOptions;
+  const options: Required<Omit<PositionIngestOptions, "secret" | "store">> = {
+    maxBatchSize: 200,
+    staleAfterMs: 5000,
+    broadcastIntervalMs: 100,
+    ...ingestOptions,
+  };
+
+  app.post("/game/positions", requireGameServerSecret(ingestOptions.secret), async (req, res) => {
+    const updates: unknown = req.body?.updates;
+    if (!Array.isArray(updates)) {
+      res.status(400).json({ error: "Body must be { updates: [...] }." });
+      return;
+    }
+    if (updates.length > options.maxBatchSize) {
+      res.status(413).json({
+        error: `At most ${options.maxBatchSize} updates per request.`,
+      });
+      return;
+    }
+
+    const parsed = updates
+      .map(parseUpdate)
+      .filter((update): update is PositionUpdate => update !== null);
+    await store.touchPlayerPositions(parsed.map((update) => update.robloxUserId), Date.now());
+    const counts = await Promise.all(parsed.map((update) => applyUpdate(store, update)));
+    const matched = counts.reduce((total, count) => total + count, 0);
+
+    res.json({ accepted: parsed.length, rejected: updates.length - parsed.length, matched });
+  });
+
+  setInterval(() => {
+    flushDirtyRooms(io, store).catch(logStoreError);
+  }, options.broadcastIntervalMs).unref();
+  setInterval(() => {
+    expireStalePlayers(store, Date.now(), options.staleAfterMs).catch(logStoreError);
+  }, STALE_SWEEP_INTERVAL_MS).unref();
+}
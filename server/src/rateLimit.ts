@@ -0,0 +1,36 @@
+export type RateLimiter = {
+  /** Counts one hit for `key`; false once the key is over its limit. */
+  take(key: string): boolean;
+};
+
+type Window = {
+  count: number;
+  resetAt: number;
+};
+
+/** Fixed-window counter per key, e.g. per user id or per socket. */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows: Map<string, Window> = new Map();
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows.entries()) {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+  }, windowMs).unref();
+
+  return {
+    take(key) {
+      const now = Date.now();
+      const window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + windowMs });
+        return true;
+      }
+      window.count += 1;
+      return window.count <= limit;
+    },
+  };
+}
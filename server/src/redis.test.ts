@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { encodeCommand, parseReply, RedisError } from "./redis.js";
+
+function parse(text: string) {
+  return parseReply(Buffer.from(text), 0);
+}
+
+describe("encodeCommand", () => {
+  it("encodes arguments as bulk strings with byte lengths", () => {
+    assert.equal(
+      encodeCommand(["SET", "ключ", 42]),
+      "*3\r\n$3\r\nSET\r\n$8\r\nключ\r\n$2\r\n42\r\n"
+    );
+  });
+});
+
+describe("parseReply", () => {
+  it("reads simple strings, integers and errors", () => {
+    assert.deepEqual(parse("+OK\r\n"), { value: "OK", next: 5 });
+    assert.deepEqual(parse(":-12\r\n"), { value: -12, next: 6 });
+
+    const error = parse("-WRONGTYPE Operation against a key\r\n");
+    assert.ok(error?.value instanceof RedisError);
+    assert.equal(error.value.message, "WRONGTYPE Operation against a key");
+  });
+
+  it("reads bulk strings by byte length, including CRLF inside them", () => {
+    assert.deepEqual(parse("$6\r\nhé\r\nx\r\n"), { value: "hé\r\nx", next: 12 });
+    assert.deepEqual(parse("$0\r\n\r\n"), { value: "", next: 6 });
+    assert.deepEqual(parse("$-1\r\n"), { value: null, next: 5 });
+  });
+
+  it("reads nested arrays and turns errors inside them into null", () => {
+    assert.deepEqual(parse("*3\r\n:1\r\n*1\r\n$1\r\na\r\n-ERR no\r\n"), {
+      value: [1, ["a"], null],
+      next: 28,
+    });
+    assert.deepEqual(parse("*-1\r\n"), { value: null, next: 5 });
+  });
+
+  it("waits for the rest of a fragmented frame", () => {
+    const frame = "*2\r\n$5\r\nhello\r\n:7\r\n";
+    for (let cut = 0; cut < frame.length; cut += 1) {
+      assert.equal(parse(frame.slice(0, cut)), null, `cut at ${cut}`);
+    }
+    assert.deepEqual(parse(frame), { value: ["hello", 7], next: frame.length });
+  });
+
+  it("waits when a frame is cut inside a multi-byte character", () => {
+    const frame = Buffer.from("$2\r\né\r\n");
+    assert.equal(parseReply(frame.subarray(0, 5), 0), null);
+    assert.deepEqual(parseReply(frame, 0), { value: "é", next: frame.length });
+  });
+
+  it("reads consecutive replies from an offset", () => {
+    const buffer = Buffer.from("+OK\r\n:3\r\n");
+    const first = parseReply(buffer, 0);
+    assert.deepEqual(first, { value: "OK", next: 5 });
+    assert.deepEqual(parseReply(buffer, first?.next ?? 0), { value: 3, next: buffer.length });
+  });
+
+  it("rejects unknown reply types", () => {
+    assert.throws(() => parse("?what\r\n"), RedisError);
+  });
+});
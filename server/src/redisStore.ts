@@ -0,0 +1,594 @@
+import { randomUUID } from "crypto";
+import { connectRedis, type RedisClient, type RedisReply } from "./redis.js";
+import type { FanoutMessage, OrphanedParticipant, RoomStore, SuspendedSession } from "./store.js";
+import type {
+  BanRecord,
+  ChatMessage,
+  GameServerRecord,
+  Participant,
+  RedisStoreOptions,
+  SessionData,
+} from "./types.js";
+
+type ParticipantRecord = {
+  /** Place in the room's join order. */
+  order: number;
+  /** Instance holding the participant's socket, which cleans it up. */
+  owner: string;
+  participant: Participant;
+};
+
+type FanoutEnvelope = {
+  origin: string;
+  message: FanoutMessage;
+};
+
+const DEFAULT_KEY_PREFIX = "voice:";
+const DEFAULT_INSTANCE_TTL_MS = 15 * 1000;
+const SCAN_BATCH_SIZE = 200;
+
+function asStrings(reply: RedisReply): string[] {
+  return Array.isArray(reply) ? reply.map(String) : [];
+}
+
+function parseRecord(reply: RedisReply): ParticipantRecord | undefined {
+  return typeof reply === "string" ? (JSON.parse(reply) as ParticipantRecord) : undefined;
+}
+
+/** How an instance lists the participants it owns, and the Roblox index lists its entries. */
+function memberKey(roomId: string, socketId: string): string {
+  return JSON.stringify([roomId, socketId]);
+}
+
+function parseMemberKey(member: string): [string, string] {
+  return JSON.parse(member) as [string, string];
+}
+
+/**
+ * Replaces one participant's record if it still holds what the caller read,
+ * and keeps the indexes in step. KEYS: room hash, stage flag, then index sets.
+ * ARGV: field read, its expected value ("" for absent), field written, new
+ * value ("" to delete), then an op and member for each index set.
+ * Returns 0 if another write got there first.
+ */
+const REPLACE_RECORD_SCRIPT = `
+local current = redis.call("HGET", KEYS[1], ARGV[1]) or ""
+if current ~= ARGV[2] then return 0 end
+if ARGV[4] == "" or ARGV[3] ~= ARGV[1] then redis.call("HDEL", KEYS[1], ARGV[1]) end
+if ARGV[4] ~= "" then redis.call("HSET", KEYS[1], ARGV[3], ARGV[4]) end
+for index = 3, #KEYS do redis.call(ARGV[2 * index - 1], KEYS[index], ARGV[2 * index]) end
+if redis.call("HLEN", KEYS[1]) == 0 then redis.call("DEL", KEYS[2]) end
+return 1
+`;
+
+/** KEYS: user's link, Roblox account's link. ARGV: userId, robloxUserId, and both key prefixes. */
+const LINK_ACCOUNT_SCRIPT = `
+local previousUser = redis.call("GET", KEYS[2])
+if previousUser then redis.call("DEL", ARGV[3] .. previousUser) end
+local previousRoblox = redis.call("GET", KEYS[1])
+if previousRoblox then redis.call("DEL", ARGV[4] .. previousRoblox) end
+redis.call("SET", KEYS[1], ARGV[2])
+redis.call("SET", KEYS[2], ARGV[1])
+return 1
+`;
+
+/** KEYS: the code, the user's current code. ARGV: userId, code, TTL in ms, code key prefix. */
+const ADD_LINK_CODE_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 1 then return 0 end
+local previous = redis.call("GET", KEYS[2])
+if previous and redis.call("GET", ARGV[4] .. previous) == ARGV[1] then
+  redis.call("DEL", ARGV[4] .. previous)
+end
+redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[3])
+redis.call("SET", KEYS[2], ARGV[2], "PX", ARGV[3])
+return 1
+`;
+
+/** Removes ARGV[1] from the sorted set KEYS[1] if its score is at most ARGV[2]. */
+const TAKE_IF_OLDER_SCRIPT = `
+local score = redis.call("ZSCORE", KEYS[1], ARGV[1])
+if score and tonumber(score) <= tonumber(ARGV[2]) then
+  return redis.call("ZREM", KEYS[1], ARGV[1])
+end
+return 0
+`;
+
+/** Deletes KEYS[1] only while it still holds ARGV[1]. */
+const COMPARE_AND_DELETE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("DEL", KEYS[1]) end
+return 0
+`;
+
+// Each retry means another instance wrote the same participant in between.
+const MAX_WRITE_ATTEMPTS = 10;
+
+/**
+ * Keeps rooms, sessions and the rest of the shared state in a Redis-compatible
+ * server so several signaling instances can serve the same rooms. Each
+ * instance heartbeats a key; when one stops, `removeOrphans` on any other
+ * instance clears out its participants. Fanout goes over a pub/sub channel.
+ *
+ * Participant writes are compare-and-set scripts: a write whose record changed
+ * since it was read is retried, so concurrent changes from two instances both
+ * land.
+ */
+export async function connectRedisStore(options: RedisStoreOptions): Promise<RoomStore> {
+  const prefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  const instanceTtlMs = options.instanceTtlMs ?? DEFAULT_INSTANCE_TTL_MS;
+  const instanceId = randomUUID();
+  const redis = await connectRedis(options.url);
+  // A subscribed connection cannot run other commands, so fanout gets its own.
+  let subscriber: RedisClient | null = null;
+
+  const keys = {
+    room: (roomId: string) => `${prefix}room:${roomId}`,
+    stage: (roomId: string) => `${prefix}stage:${roomId}`,
+    joinOrder: `${prefix}join-order`,
+    session: (socketId: string) => `${prefix}session:${socketId}`,
+    resume: (resumeToken: string) => `${prefix}resume:${resumeToken}`,
+    held: (resumeToken: string) => `${prefix}held:${resumeToken}`,
+    roblox: (robloxUserId: number) => `${prefix}roblox:${robloxUserId}`,
+    bans: (roomId: string) => `${prefix}bans:${roomId}`,
+    mutes: (roomId: string) => `${prefix}mutes:${roomId}`,
+    chat: (roomId: string) => `${prefix}chat:${roomId}`,
+    linkOfUser: (userId: string) => `${prefix}link-user:${userId}`,
+    linkOfRoblox: (robloxUserId: number | string) => `${prefix}link-roblox:${robloxUserId}`,
+    linkCode: (code: string) => `${prefix}link-code:${code}`,
+    linkCodeOfUser: (userId: string) => `${prefix}link-code-user:${userId}`,
+    gameServers: `${prefix}game-servers`,
+    playerServer: (robloxUserId: number) => `${prefix}player-server:${robloxUserId}`,
+    positionReports: `${prefix}position-reports`,
+    instances: `${prefix}instances`,
+    alive: (id: string) => `${prefix}instance:${id}:alive`,
+    members: (id: string) => `${prefix}instance:${id}:members`,
+    fanout: `${prefix}fanout`,
+  };
+
+  /** Runs the commands as one MULTI/EXEC; nothing else can be written in between. */
+  const transaction = (commands: Array<Array<string | number>>): Promise<RedisReply> => {
+    // Failures of the queued commands surface through EXEC.
+    redis.command("MULTI").catch(() => undefined);
+    for (const command of commands) {
+      redis.command(...command).catch(() => undefined);
+    }
+    return redis.command("EXEC");
+  };
+
+  const readRecord = async (
+    roomId: string,
+    socketId: string
+  ): Promise<ParticipantRecord | undefined> =>
+    parseRecord(await redis.command("HGET", keys.room(roomId), socketId));
+
+  /** Index updates for a record going from `previous` to `next` (either may be absent). */
+  const indexCommands = (
+    roomId: string,
+    previous: { socketId: string; owner: string; robloxUserId?: number } | undefined,
+    next: { socketId: string; owner: string; robloxUserId?: number } | undefined
+  ): Array<[string, string, string]> => {
+    const commands: Array<[string, string, string]> = [];
+    if (previous) {
+      const member = memberKey(roomId, previous.socketId);
+      commands.push(["SREM", keys.members(previous.owner), member]);
+      if (previous.robloxUserId !== undefined) {
+        commands.push(["SREM", keys.roblox(previous.robloxUserId), member]);
+      }
+    }
+    if (next) {
+      const member = memberKey(roomId, next.socketId);
+      commands.push(["SADD", keys.members(next.owner), member]);
+      if (next.robloxUserId !== undefined) {
+        commands.push(["SADD", keys.roblox(next.robloxUserId), member]);
+      }
+    }
+    return commands;
+  };
+
+  const indexEntry = (record: ParticipantRecord) => ({
+    socketId: record.participant.socketId,
+    owner: record.owner,
+    robloxUserId: record.participant.robloxUserId,
+  });
+
+  /**
+   * Reads the record at `socketId` and swaps it for what `change` returns,
+   * stored under that record's socket id; undefined deletes it and null leaves
+   * it alone. `change` runs again whenever another write got in between.
+   * @returns whether anything was written
+   */
+  const rewriteRecord = async (
+    roomId: string,
+    socketId: string,
+    change: (current: ParticipantRecord | undefined) => ParticipantRecord | undefined | null
+  ): Promise<boolean> => {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt += 1) {
+      const raw = await redis.command("HGET", keys.room(roomId), socketId);
+      const current = parseRecord(raw);
+      const next = change(current && structuredClone(current));
+      if (next === null || (!current && !next)) {
+        return false;
+      }
+      const indexes = indexCommands(
+        roomId,
+        current && indexEntry(current),
+        next && indexEntry(next)
+      );
+      const written = await redis.command(
+        "EVAL",
+        REPLACE_RECORD_SCRIPT,
+        2 + indexes.length,
+        keys.room(roomId),
+        keys.stage(roomId),
+        ...indexes.map(([, key]) => key),
+        socketId,
+        typeof raw === "string" ? raw : "",
+        next?.participant.socketId ?? socketId,
+        next ? JSON.stringify(next) : "",
+        ...indexes.flatMap(([op, , member]) => [op, member])
+      );
+      if (Number(written) === 1) {
+        return true;
+      }
+    }
+    throw new Error(`Gave up writing participant ${socketId} in room ${roomId}.`);
+  };
+
+  const removeParticipant = (roomId: string, socketId: string): Promise<boolean> =>
+    rewriteRecord(roomId, socketId, (current) => (current ? undefined : null));
+
+  const deleteSession = async (socketId: string): Promise<void> => {
+    const raw = await redis.command("GET", keys.session(socketId));
+    if (typeof raw !== "string") {
+      return;
+    }
+    const session = JSON.parse(raw) as SessionData;
+    const holder = await redis.command("GET", keys.resume(session.resumeToken));
+    await transaction([
+      ["DEL", keys.session(socketId)],
+      ...(holder === socketId ? [["DEL", keys.resume(session.resumeToken)]] : []),
+    ]);
+  };
+
+  const heartbeat = async (): Promise<void> => {
+    await transaction([
+      ["SADD", keys.instances, instanceId],
+      ["SET", keys.alive(instanceId), "1", "PX", instanceTtlMs],
+    ]);
+  };
+  await heartbeat();
+  const heartbeatTimer = setInterval(() => {
+    heartbeat().catch(() => undefined);
+  }, instanceTtlMs / 3);
+  heartbeatTimer.unref();
+
+  return {
+    async listRoomIds() {
+      const roomIds: string[] = [];
+      const roomPrefix = keys.room("");
+      let cursor = "0";
+      do {
+        const reply = await redis.command(
+          "SCAN",
+          cursor,
+          "MATCH",
+          `${roomPrefix}*`,
+          "COUNT",
+          SCAN_BATCH_SIZE
+        );
+        const [next, batch] = Array.isArray(reply) ? reply : ["0", []];
+        cursor = String(next);
+        roomIds.push(...asStrings(batch).map((key) => key.slice(roomPrefix.length)));
+      } while (cursor !== "0");
+      return Array.from(new Set(roomIds));
+    },
+
+    async listParticipants(roomId) {
+      const fields = asStrings(await redis.command("HGETALL", keys.room(roomId)));
+      const records: ParticipantRecord[] = [];
+      for (let index = 1; index < fields.length; index += 2) {
+        records.push(JSON.parse(fields[index]) as ParticipantRecord);
+      }
+      return records.sort((a, b) => a.order - b.order).map((record) => record.participant);
+    },
+
+    async getParticipant(roomId, socketId) {
+      return (await readRecord(roomId, socketId))?.participant;
+    },
+
+    async findParticipantsByRobloxUserId(robloxUserId) {
+      const members = asStrings(await redis.command("SMEMBERS", keys.roblox(robloxUserId)));
+      const matches: Array<{ roomId: string; participant: Participant }> = [];
+      for (const member of members) {
+        const [roomId, socketId] = parseMemberKey(member);
+        const record = await readRecord(roomId, socketId);
+        if (record?.participant.robloxUserId === robloxUserId) {
+          matches.push({ roomId, participant: record.participant });
+        }
+      }
+      return matches;
+    },
+
+    async addParticipant(roomId, participant) {
+      const order = Number(await redis.command("INCR", keys.joinOrder));
+      await rewriteRecord(roomId, participant.socketId, () => ({
+        order,
+        owner: instanceId,
+        participant,
+      }));
+    },
+
+    updateParticipant(roomId, socketId, update) {
+      return rewriteRecord(roomId, socketId, (current) => {
+        if (!current || !update(current.participant)) {
+          return null;
+        }
+        return current;
+      });
+    },
+
+    moveParticipant(roomId, fromSocketId, participant) {
+      // The resuming socket is connected here, so this instance owns it now.
+      return rewriteRecord(roomId, fromSocketId, (current) =>
+        current ? { order: current.order, owner: instanceId, participant } : null
+      );
+    },
+
+    removeParticipant,
+
+    async isStageRoom(roomId) {
+      return Number(await redis.command("EXISTS", keys.stage(roomId))) === 1;
+    },
+
+    async setStageRoom(roomId, enabled) {
+      const changed = enabled
+        ? await redis.command("SET", keys.stage(roomId), "1", "NX")
+        : await redis.command("DEL", keys.stage(roomId));
+      return changed === "OK" || changed === 1;
+    },
+
+    async getSession(socketId) {
+      const raw = await redis.command("GET", keys.session(socketId));
+      return typeof raw === "string" ? (JSON.parse(raw) as SessionData) : undefined;
+    },
+
+    async setSession(socketId, session) {
+      const raw = await redis.command("GET", keys.session(socketId));
+      const previous = typeof raw === "string" ? (JSON.parse(raw) as SessionData) : undefined;
+      await transaction([
+        ...(previous && previous.resumeToken !== session.resumeToken
+          ? [["DEL", keys.resume(previous.resumeToken)]]
+          : []),
+        ["SET", keys.session(socketId), JSON.stringify(session)],
+        ["SET", keys.resume(session.resumeToken), socketId],
+      ]);
+    },
+
+    deleteSession,
+
+    async findSocketByResumeToken(resumeToken) {
+      const socketId = await redis.command("GET", keys.resume(resumeToken));
+      return typeof socketId === "string" ? socketId : undefined;
+    },
+
+    async holdSession(resumeToken, suspended, ttlMs) {
+      await redis.command(
+        "SET",
+        keys.held(resumeToken),
+        JSON.stringify(suspended),
+        "PX",
+        Math.max(1, Math.round(ttlMs))
+      );
+    },
+
+    async takeHeldSession(resumeToken) {
+      const raw = await redis.command("GETDEL", keys.held(resumeToken));
+      return typeof raw === "string" ? (JSON.parse(raw) as SuspendedSession) : undefined;
+    },
+
+    async getBan(roomId, userId) {
+      const raw = await redis.command("HGET", keys.bans(roomId), userId);
+      return typeof raw === "string" ? (JSON.parse(raw) as BanRecord) : undefined;
+    },
+
+    async listBans(roomId) {
+      const values = asStrings(await redis.command("HVALS", keys.bans(roomId)));
+      return values.map((raw) => JSON.parse(raw) as BanRecord);
+    },
+
+    async setBan(roomId, ban) {
+      await redis.command("HSET", keys.bans(roomId), ban.userId, JSON.stringify(ban));
+    },
+
+    async removeBan(roomId, userId) {
+      return Number(await redis.command("HDEL", keys.bans(roomId), userId)) === 1;
+    },
+
+    async isServerMuted(roomId, userId) {
+      return Number(await redis.command("SISMEMBER", keys.mutes(roomId), userId)) === 1;
+    },
+
+    async setServerMute(roomId, userId, muted) {
+      await redis.command(muted ? "SADD" : "SREM", keys.mutes(roomId), userId);
+    },
+
+    async listChatMessages(roomId) {
+      const values = asStrings(await redis.command("LRANGE", keys.chat(roomId), 0, -1));
+      return values.map((raw) => JSON.parse(raw) as ChatMessage);
+    },
+
+    async appendChatMessage(roomId, message, limit) {
+      await transaction([
+        ["RPUSH", keys.chat(roomId), JSON.stringify(message)],
+        ["LTRIM", keys.chat(roomId), -limit, -1],
+      ]);
+    },
+
+    async deleteChatMessage(roomId, messageId) {
+      const values = asStrings(await redis.command("LRANGE", keys.chat(roomId), 0, -1));
+      const raw = values.find((value) => (JSON.parse(value) as ChatMessage).id === messageId);
+      // LREM removes by value, so a message trimmed or deleted meanwhile is simply not found.
+      if (raw === undefined) {
+        return false;
+      }
+      return Number(await redis.command("LREM", keys.chat(roomId), 1, raw)) > 0;
+    },
+
+    async clearChatHistory(roomId) {
+      await redis.command("DEL", keys.chat(roomId));
+    },
+
+    async getLinkedRobloxUserId(userId) {
+      const raw = await redis.command("GET", keys.linkOfUser(userId));
+      return typeof raw === "string" ? Number(raw) : undefined;
+    },
+
+    async linkRobloxAccount(userId, robloxUserId) {
+      await redis.command(
+        "EVAL",
+        LINK_ACCOUNT_SCRIPT,
+        2,
+        keys.linkOfUser(userId),
+        keys.linkOfRoblox(robloxUserId),
+        userId,
+        robloxUserId,
+        keys.linkOfUser(""),
+        keys.linkOfRoblox("")
+      );
+    },
+
+    async addLinkCode(code, userId, ttlMs) {
+      const added = await redis.command(
+        "EVAL",
+        ADD_LINK_CODE_SCRIPT,
+        2,
+        keys.linkCode(code),
+        keys.linkCodeOfUser(userId),
+        userId,
+        code,
+        Math.max(1, Math.round(ttlMs)),
+        keys.linkCode("")
+      );
+      return Number(added) === 1;
+    },
+
+    async takeLinkCode(code) {
+      const userId = await redis.command("GETDEL", keys.linkCode(code));
+      return typeof userId === "string" ? userId : undefined;
+    },
+
+    async getGameServer(jobId) {
+      const raw = await redis.command("HGET", keys.gameServers, jobId);
+      return typeof raw === "string" ? (JSON.parse(raw) as GameServerRecord) : undefined;
+    },
+
+    async listGameServers() {
+      const values = asStrings(await redis.command("HVALS", keys.gameServers));
+      return values.map((raw) => JSON.parse(raw) as GameServerRecord);
+    },
+
+    async saveGameServer(server) {
+      await redis.command("HSET", keys.gameServers, server.jobId, JSON.stringify(server));
+    },
+
+    async removeGameServer(jobId) {
+      return Number(await redis.command("HDEL", keys.gameServers, jobId)) === 1;
+    },
+
+    async getPlayerGameServer(robloxUserId) {
+      const jobId = await redis.command("GET", keys.playerServer(robloxUserId));
+      return typeof jobId === "string" ? jobId : undefined;
+    },
+
+    async setPlayerGameServer(robloxUserId, jobId) {
+      const previous = await redis.command("SET", keys.playerServer(robloxUserId), jobId, "GET");
+      return previous !== jobId;
+    },
+
+    async releasePlayerGameServer(robloxUserId, jobId) {
+      const deleted = await redis.command(
+        "EVAL",
+        COMPARE_AND_DELETE_SCRIPT,
+        1,
+        keys.playerServer(robloxUserId),
+        jobId
+      );
+      return Number(deleted) === 1;
+    },
+
+    async touchPlayerPositions(robloxUserIds, at) {
+      if (robloxUserIds.length === 0) {
+        return;
+      }
+      await redis.command(
+        "ZADD",
+        keys.positionReports,
+        ...robloxUserIds.flatMap((robloxUserId) => [at, robloxUserId])
+      );
+    },
+
+    async takeStalePlayerPositions(cutoff) {
+      const candidates = asStrings(
+        await redis.command("ZRANGEBYSCORE", keys.positionReports, "-inf", cutoff)
+      );
+      const stale: number[] = [];
+      for (const member of candidates) {
+        // Whoever removes the entry owns it; a fresh report in between re-scores it instead.
+        const removed = await redis.command(
+          "EVAL",
+          TAKE_IF_OLDER_SCRIPT,
+          1,
+          keys.positionReports,
+          member,
+          cutoff
+        );
+        if (Number(removed) === 1) {
+          stale.push(Number(member));
+        }
+      }
+      return stale;
+    },
+
+    async removeOrphans() {
+      const orphans: OrphanedParticipant[] = [];
+      for (const id of asStrings(await redis.command("SMEMBERS", keys.instances))) {
+        if (id === instanceId || Number(await redis.command("EXISTS", keys.alive(id))) === 1) {
+          continue;
+        }
+        // Only the instance whose SREM succeeds cleans up, so it happens once.
+        if (Number(await redis.command("SREM", keys.instances, id)) !== 1) {
+          continue;
+        }
+        for (const member of asStrings(await redis.command("SMEMBERS", keys.members(id)))) {
+          const [roomId, socketId] = parseMemberKey(member);
+          await deleteSession(socketId);
+          if (await removeParticipant(roomId, socketId)) {
+            orphans.push({ roomId, socketId });
+          }
+        }
+        await redis.command("DEL", keys.members(id));
+      }
+      return orphans;
+    },
+
+    async publish(message) {
+      const envelope: FanoutEnvelope = { origin: instanceId, message };
+      await redis.command("PUBLISH", keys.fanout, JSON.stringify(envelope));
+    },
+
+    async subscribe(onMessage) {
+      subscriber ??= await connectRedis(options.url);
+      await subscriber.subscribe(keys.fanout, (raw) => {
+        const envelope = JSON.parse(raw) as FanoutEnvelope;
+        if (envelope.origin !== instanceId) {
+          onMessage(envelope.message);
+        }
+      });
+    },
+
+    async close() {
+      clearInterval(heartbeatTimer);
+      subscriber?.close();
+      redis.close();
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { after, describe, it } from "node:test";
+import { admitInbound, canRelay } from "./signaling.js";
+import { createMemoryStore } from "./store.js";
+import type { Participant, SessionData, SessionDescription, StageRole } from "./types.js";
+
+const SEND_RECV_SDP = "v=0\r\nm=audio 9 UDP/TLS/RTP/SAVPF 111\r\na=sendrecv\r\n";
+const RECV_ONLY_SDP = "v=0\r\nm=audio 9 UDP/TLS/RTP/SAVPF 111\r\na=recvonly\r\n";
+
+function session(roomId: string): SessionData {
+  return { roomId, userId: `user-${roomId}`, muted: false, role: "member", resumeToken: "t" };
+}
+
+function participant(socketId: string, stageRole?: StageRole): Participant {
+  return { socketId, userId: `user-${socketId}`, muted: false, stageRole };
+}
+
+function offer(sdp: string): SessionDescription {
+  return { type: "offer", sdp };
+}
+
+describe("admitInbound", () => {
+  it("passes a valid event through its parser", () => {
+    assert.deepEqual(admitInbound("admit-valid", "set-muted", { muted: true }), {
+      ok: true,
+      value: { muted: true },
+    });
+  });
+
+  it("refuses malformed payloads without running a handler", () => {
+    const result = admitInbound("admit-malformed", "set-muted", { muted: "yes" });
+    assert.equal(result.ok, false);
+    assert.equal(!result.ok && result.code, "INVALID_PAYLOAD");
+  });
+
+  it("refuses oversized payloads", () => {
+    const result = admitInbound("admit-oversized", "chat-send", { text: "a".repeat(10_000) });
+    assert.equal(result.ok, false);
+    assert.equal(!result.ok && result.code, "PAYLOAD_TOO_LARGE");
+  });
+
+  it("drops events once the socket has spent its budget for them", () => {
+    // join-room allows 5 per 10 seconds, malformed or not.
+    const results = Array.from({ length: 7 }, () =>
+      admitInbound("admit-flood", "join-room", { roomId: "lobby", userId: "ana" })
+    );
+    assert.deepEqual(
+      results.map((result) => result.ok),
+      [true, true, true, true, true, false, false]
+    );
+    const last = results[results.length - 1];
+    assert.equal(!last.ok && last.code, "RATE_LIMITED");
+    // Budgets are per socket and per event.
+    assert.equal(admitInbound("admit-other", "join-room", { roomId: "lobby" }).ok, true);
+    assert.equal(admitInbound("admit-flood", "set-muted", { muted: false }).ok, true);
+  });
+});
+
+describe("canRelay", () => {
+  const store = createMemoryStore();
+  after(async () => {
+    await store.close();
+  });
+
+  it("only relays to other participants of the sender's room", async () => {
+    await store.setSession("relay-a", session("lobby"));
+    await store.setSession("relay-b", session("lobby"));
+    await store.setSession("relay-c", session("elsewhere"));
+
+    assert.equal(await canRelay(store, session("lobby"), "relay-a", "relay-b"), true);
+    assert.equal(await canRelay(store, session("lobby"), "relay-a", "relay-c"), false);
+    assert.equal(await canRelay(store, session("lobby"), "relay-a", "relay-a"), false);
+    assert.equal(await canRelay(store, session("lobby"), "relay-a", "relay-missing"), false);
+  });
+
+  it("keeps stage listeners receive-only and apart from each other", async () => {
+    await store.setStageRoom("stage", true);
+    for (const [socketId, stageRole] of [
+      ["stage-speaker", "speaker"],
+      ["stage-listener", "listener"],
+      ["stage-listener-2", "listener"],
+    ] as const) {
+      await store.setSession(socketId, session("stage"));
+      await store.addParticipant("stage", participant(socketId, stageRole));
+    }
+    const stage = session("stage");
+
+    assert.equal(
+      await canRelay(store, stage, "stage-listener", "stage-speaker", offer(SEND_RECV_SDP)),
+      false
+    );
+    assert.equal(
+      await canRelay(store, stage, "stage-listener", "stage-speaker", offer(RECV_ONLY_SDP)),
+      true
+    );
+    assert.equal(await canRelay(store, stage, "stage-listener", "stage-speaker"), true);
+    assert.equal(
+      await canRelay(store, stage, "stage-speaker", "stage-listener", offer(SEND_RECV_SDP)),
+      true
+    );
+    assert.equal(await canRelay(store, stage, "stage-listener", "stage-listener-2"), false);
+  });
+});
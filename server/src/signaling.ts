@@ -1,182 +1,1034 @@
+import { randomBytes } from "crypto";
 import type { Server, Socket } from "socket.io";
-import type { JoinRoomPayload, Participant, SessionData } from "./types.js";
+import { PROTOCOL_MISMATCH_MESSAGE, PROTOCOL_VERSION } from "../../shared/protocol.js";
+import { tokenAllowsRoom, verifyJoinToken } from "./auth.js";
+import {
+  clearChatHistory,
+  deleteChatMessage,
+  getChatHistory,
+  postChatMessage,
+} from "./chat.js";
+import { getPlayerGameRoom } from "./gameServers.js";
+import { getLinkedRobloxUserId } from "./linking.js";
+import { addBan, getActiveBan, isServerMuted, setServerMute } from "./moderation.js";
+import { createRateLimiter, type RateLimiter } from "./rateLimit.js";
+import { canConnect, initialStageRole, isReceiveOnlySdp, resetStageRole } from "./stage.js";
+import { createMemoryStore, logStoreError, type RoomStore } from "./store.js";
+import type {
+  AuthOptions,
+  ClientEventName,
+  ClientToServerPayloads,
+  JoinTokenClaims,
+  ModerationTarget,
+  Participant,
+  ParticipantRole,
+  ServerEventName,
+  ServerToClientPayloads,
+  SessionData,
+  SessionDescription,
+  SignalingOptions,
+  SignalingServer,
+  SignalingSocket,
+  VoiceError,
+  VoiceErrorCode,
+} from "./types.js";
+import { isInboundEvent, parseInbound, type ParseResult } from "./validation.js";
 
-type RoomMap = Map<string, Map<string, Participant>>;
-type SessionDescriptionPayload = Record<string, unknown>;
-type IceCandidatePayload = Record<string, unknown>;
+let store: RoomStore = createMemoryStore();
+// Events from one socket are handled one at a time, in the order they arrived.
+const socketTasks: Map<string, Promise<void>> = new Map();
+// Participant updates for a room are read and sent in order, so the last one is current.
+const roomBroadcasts: Map<string, Promise<void>> = new Map();
+const ROOM_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+const MIN_BAN_SECONDS = 60;
+const MAX_BAN_SECONDS = 30 * 24 * 60 * 60;
+const DEFAULT_RESUME_GRACE_MS = 30 * 1000;
+const ORPHAN_SWEEP_INTERVAL_MS = 5 * 1000;
+const TEAM_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _-]{0,31}$/;
+const MAX_WHISPER_TARGETS = 8;
 
-const rooms: RoomMap = new Map();
-const sessions: Map<string, SessionData> = new Map();
-const GLOBAL_ROOM_ID = "global-room";
+// Per socket, as [events, window ms]. Roomy enough for real clients: offers
+// and candidates burst once per call on joining, and push-to-talk flips
+// `set-transmitting` on every key press.
+const EVENT_RATE_LIMITS: Record<ClientEventName, [number, number]> = {
+  "join-room": [5, 10 * 1000],
+  "leave-room": [5, 10 * 1000],
+  "set-muted": [20, 10 * 1000],
+  "set-transmitting": [50, 10 * 1000],
+  "chat-send": [10, 10 * 1000],
+  "delete-chat-message": [20, 10 * 1000],
+  "set-team": [10, 10 * 1000],
+  "set-whisper": [30, 10 * 1000],
+  "set-stage-mode": [5, 10 * 1000],
+  "raise-hand": [10, 10 * 1000],
+  "set-stage-role": [20, 10 * 1000],
+  "server-mute": [20, 10 * 1000],
+  kick: [10, 10 * 1000],
+  ban: [10, 10 * 1000],
+  offer: [60, 10 * 1000],
+  answer: [60, 10 * 1000],
+  "ice-candidate": [600, 10 * 1000],
+};
+const eventLimiters = Object.fromEntries(
+  Object.entries(EVENT_RATE_LIMITS).map(([event, [limit, windowMs]]) => [
+    event,
+    createRateLimiter(limit, windowMs),
+  ])
+) as Record<ClientEventName, RateLimiter>;
+// Rejected events (malformed, oversized, unknown or over a limit) a socket may
+// send per minute before it is disconnected.
+const violationLimiter = createRateLimiter(20, 60 * 1000);
 
-function getRoomParticipants(roomId: string): Participant[] {
-  const room = rooms.get(roomId);
-  if (!room) {
-    return [];
+/** Runs `task` after the tasks already queued under `key`. Failures are logged. */
+function enqueue(
+  queues: Map<string, Promise<void>>,
+  key: string,
+  task: () => Promise<void>
+): Promise<void> {
+  const run = (queues.get(key) ?? Promise.resolve()).then(task).catch(logStoreError);
+  queues.set(key, run);
+  void run.then(() => {
+    if (queues.get(key) === run) {
+      queues.delete(key);
+    }
+  });
+  return run;
+}
+
+/**
+ * Queues work on one socket's state behind its pending events. Kicks of other
+ * sockets are queued on theirs and not awaited, so two sockets acting on each
+ * other cannot wait on each other forever.
+ */
+function runForSocket(socketId: string, task: () => Promise<void>): Promise<void> {
+  return enqueue(socketTasks, socketId, task);
+}
+
+/** Fanout messages carry untyped payloads, so they go through the untyped server. */
+function deliverLocally(
+  io: SignalingServer,
+  to: string,
+  event: ServerEventName,
+  payload: unknown,
+  except?: string
+): void {
+  const target = (io as unknown as Server).local.to(to);
+  (except ? target.except(except) : target).emit(event, payload);
+}
+
+/**
+ * Emits to a room or socket id on this instance, and through the store on
+ * every other instance sharing it. `except` leaves out one socket.
+ */
+export function emitTo<E extends ServerEventName>(
+  io: SignalingServer,
+  to: string,
+  event: E,
+  payload: ServerToClientPayloads[E],
+  except?: string
+): void {
+  deliverLocally(io, to, event, payload, except);
+  store.publish({ type: "emit", to, except, event, payload }).catch(logStoreError);
+}
+
+/**
+ * Admits one inbound event: within the socket's rate limit for it, then
+ * parsed. Events over the limit are refused before their payload is read.
+ */
+export function admitInbound<E extends ClientEventName>(
+  socketId: string,
+  event: E,
+  raw: unknown
+): ParseResult<ClientToServerPayloads[E]> {
+  if (!eventLimiters[event].take(socketId)) {
+    return { ok: false, code: "RATE_LIMITED", message: `Too many ${event} requests. Slow down.` };
   }
-  return Array.from(room.values());
+  return parseInbound(event, raw);
 }
 
-function canTalk(_userId: string, _roomId: string): boolean {
-  return true;
+/**
+ * Relays only reach other live participants of the sender's room. Stage
+ * rooms also need a speaker in the pair, and a listener's offers and
+ * answers must not carry audio.
+ */
+export async function canRelay(
+  roomStore: RoomStore,
+  session: SessionData,
+  from: string,
+  to: string,
+  sdp?: SessionDescription
+): Promise<boolean> {
+  if (to === from || (await roomStore.getSession(to))?.roomId !== session.roomId) {
+    return false;
+  }
+  if (!(await roomStore.isStageRoom(session.roomId))) {
+    return true;
+  }
+  const [self, target] = await Promise.all([
+    roomStore.getParticipant(session.roomId, from),
+    roomStore.getParticipant(session.roomId, to),
+  ]);
+  if (!self || !target || !canConnect(true, self, target)) {
+    return false;
+  }
+  return sdp === undefined || self.stageRole === "speaker" || isReceiveOnlySdp(sdp);
 }
 
-function broadcastParticipantUpdate(io: Server, roomId: string): void {
-  io.to(roomId).emit("participant-update", {
-    roomId,
-    participants: getRoomParticipants(roomId),
-  });
+/** Without a join token secret every join is trusted, as in local development. */
+function canTalk(claims: JoinTokenClaims | null, roomId: string): boolean {
+  return claims === null || tokenAllowsRoom(claims, roomId);
 }
 
-function removeSocketFromRoom(io: Server, socket: Socket): void {
-  const session = sessions.get(socket.id);
-  if (!session) {
+function sendVoiceError(socket: SignalingSocket, code: VoiceErrorCode, message: string): void {
+  socket.emit("voice-error", { code, message } satisfies VoiceError);
+}
+
+/**
+ * Reports a rejected event to its sender. Sockets that keep sending them are
+ * removed from their room (without a held slot) and disconnected.
+ */
+function rejectEvent(
+  io: SignalingServer,
+  socket: SignalingSocket,
+  code: VoiceErrorCode,
+  message: string
+): void {
+  if (violationLimiter.take(socket.id)) {
+    sendVoiceError(socket, code, message);
     return;
   }
+  void runForSocket(socket.id, async () => {
+    try {
+      socket.emit("kicked", {
+        roomId: (await store.getSession(socket.id))?.roomId ?? "",
+        reason: "Disconnected for sending too many invalid or rapid requests.",
+      });
+      await removeSocketFromRoom(io, socket);
+    } finally {
+      socket.disconnect(true);
+    }
+  });
+}
 
-  const room = rooms.get(session.roomId);
-  if (room) {
-    room.delete(socket.id);
-    if (room.size === 0) {
-      rooms.delete(session.roomId);
+function broadcastParticipantUpdate(io: SignalingServer, roomId: string): Promise<void> {
+  return enqueue(roomBroadcasts, roomId, async () => {
+    const [participants, stage] = await Promise.all([
+      store.listParticipants(roomId),
+      store.isStageRoom(roomId),
+    ]);
+    emitTo(io, roomId, "participant-update", { roomId, participants, stage });
+  });
+}
+
+/**
+ * Reflects a newly confirmed Roblox link on every live participant of that
+ * web user, and drops it from whoever held that Roblox account before.
+ */
+export async function applyRobloxLink(
+  io: SignalingServer,
+  userId: string,
+  robloxUserId: number
+): Promise<void> {
+  for (const roomId of await store.listRoomIds()) {
+    let changed = false;
+    for (const { socketId } of await store.listParticipants(roomId)) {
+      const updated = await store.updateParticipant(roomId, socketId, (participant) => {
+        if (participant.userId === userId && participant.robloxUserId !== robloxUserId) {
+          participant.robloxUserId = robloxUserId;
+          return true;
+        }
+        if (participant.userId !== userId && participant.robloxUserId === robloxUserId) {
+          delete participant.robloxUserId;
+          participant.inGame = false;
+          return true;
+        }
+        return false;
+      });
+      changed ||= updated;
+    }
+    if (changed) {
+      await broadcastParticipantUpdate(io, roomId);
     }
   }
 
-  io.to(session.roomId).emit("peer-left", { socketId: socket.id });
+  const gameRoomId = await getPlayerGameRoom(store, robloxUserId);
+  if (gameRoomId) {
+    await applyGameServerMove(io, robloxUserId, gameRoomId);
+  }
+}
+
+/**
+ * Follows a linked player between Roblox servers: every live socket of theirs
+ * outside `roomId` is told to rejoin there (`room-assigned`). With no server
+ * left, they stay put and only drop out of game.
+ */
+export async function applyGameServerMove(
+  io: SignalingServer,
+  robloxUserId: number,
+  roomId: string | null
+): Promise<void> {
+  const matches = await store.findParticipantsByRobloxUserId(robloxUserId);
+  for (const { roomId: currentRoomId, participant } of matches) {
+    if (participant.reconnecting) {
+      continue;
+    }
+    if (roomId === null) {
+      const changed = await store.updateParticipant(
+        currentRoomId,
+        participant.socketId,
+        (entry) => {
+          if (!entry.inGame) {
+            return false;
+          }
+          entry.inGame = false;
+          return true;
+        }
+      );
+      if (changed) {
+        await broadcastParticipantUpdate(io, currentRoomId);
+      }
+    } else if (currentRoomId !== roomId) {
+      emitTo(io, participant.socketId, "room-assigned", { roomId });
+    }
+  }
+}
+
+async function findParticipantsForUser(roomId: string, userId: string): Promise<Participant[]> {
+  return (await store.listParticipants(roomId)).filter(
+    (participant) => participant.userId === userId
+  );
+}
+
+/**
+ * Applies a server mute to every socket of `userId` in the room. The state is
+ * remembered, so it also applies if they rejoin.
+ * @returns number of live sockets affected
+ */
+export async function setUserServerMuted(
+  io: SignalingServer,
+  roomId: string,
+  userId: string,
+  muted: boolean
+): Promise<number> {
+  await setServerMute(store, roomId, userId, muted);
+  const participants = await findParticipantsForUser(roomId, userId);
+  for (const { socketId } of participants) {
+    await store.updateParticipant(roomId, socketId, (participant) => {
+      participant.serverMuted = muted;
+      return true;
+    });
+    emitTo(io, socketId, "server-muted", { muted });
+  }
+  if (participants.length > 0) {
+    await broadcastParticipantUpdate(io, roomId);
+  }
+  return participants.length;
+}
+
+/** Sends `kicked` and removes the socket, once it is done with what it is handling. */
+function kickSocket(
+  io: SignalingServer,
+  target: SignalingSocket,
+  roomId: string,
+  reason: string
+): void {
+  void runForSocket(target.id, async () => {
+    // It may have moved on to another room meanwhile.
+    if ((await store.getSession(target.id))?.roomId !== roomId) {
+      return;
+    }
+    target.emit("kicked", { roomId, reason });
+    await removeSocketFromRoom(io, target);
+  });
+}
+
+/**
+ * A socket here is kicked, a held slot is dropped, and a socket on another
+ * instance is left for that instance to kick.
+ */
+async function kickParticipant(
+  io: SignalingServer,
+  roomId: string,
+  participant: Participant,
+  reason: string
+): Promise<void> {
+  const target = io.sockets.sockets.get(participant.socketId);
+  if (target) {
+    kickSocket(io, target, roomId, reason);
+  } else if (participant.reconnecting) {
+    await removeParticipant(io, roomId, participant.socketId);
+  } else {
+    await store.publish({ type: "kick", socketId: participant.socketId, roomId, reason });
+  }
+}
+
+/**
+ * Removes everyone from a room, e.g. when its Roblox server shuts down.
+ * @returns number of participants removed
+ */
+export async function closeRoom(
+  io: SignalingServer,
+  roomId: string,
+  reason: string
+): Promise<number> {
+  const participants = await store.listParticipants(roomId);
+  for (const participant of participants) {
+    await kickParticipant(io, roomId, participant, reason);
+  }
+  return participants.length;
+}
+
+/** @returns number of sockets removed from the room */
+export async function kickUser(
+  io: SignalingServer,
+  roomId: string,
+  userId: string,
+  reason: string
+): Promise<number> {
+  const participants = await findParticipantsForUser(roomId, userId);
+  for (const participant of participants) {
+    await kickParticipant(io, roomId, participant, reason);
+  }
+  return participants.length;
+}
+
+export async function banUser(
+  io: SignalingServer,
+  roomId: string,
+  userId: string,
+  durationSeconds: number,
+  bannedBy: string,
+  reason?: string
+): Promise<number> {
+  const until = Date.now() + durationSeconds * 1000;
+  await addBan(store, roomId, { userId, until, reason, bannedBy });
+  return kickUser(
+    io,
+    roomId,
+    userId,
+    `You are banned from this room until ${new Date(until).toISOString()}.`
+  );
+}
+
+async function removeParticipant(
+  io: SignalingServer,
+  roomId: string,
+  socketId: string
+): Promise<void> {
+  await store.removeParticipant(roomId, socketId);
+  if ((await store.listParticipants(roomId)).length === 0) {
+    await clearChatHistory(store, roomId);
+  }
+
+  emitTo(io, roomId, "peer-left", { socketId });
+  await broadcastParticipantUpdate(io, roomId);
+}
+
+async function removeSocketFromRoom(io: SignalingServer, socket: SignalingSocket): Promise<void> {
+  const session = await store.getSession(socket.id);
+  if (!session) {
+    return;
+  }
+
   socket.leave(session.roomId);
-  sessions.delete(socket.id);
-  broadcastParticipantUpdate(io, session.roomId);
+  await store.deleteSession(socket.id);
+  await removeParticipant(io, session.roomId, socket.id);
 }
 
-export function registerSignalingHandlers(io: Server): void {
+/** Participants of instances that stopped responding leave as if they had dropped for good. */
+async function removeOrphanedParticipants(io: SignalingServer): Promise<void> {
+  for (const { roomId, socketId } of await store.removeOrphans()) {
+    await removeParticipant(io, roomId, socketId);
+  }
+}
+
+function createResumeToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Holds a dropped participant's slot for the grace window instead of removing
+ * it. Peers still get `peer-left`, since media to the dead socket is gone.
+ */
+async function suspendSession(
+  io: SignalingServer,
+  socket: SignalingSocket,
+  graceMs: number
+): Promise<void> {
+  const session = await store.getSession(socket.id);
+  if (!session) {
+    return;
+  }
+
+  const socketId = socket.id;
+  await store.deleteSession(socketId);
+  const held = await store.updateParticipant(session.roomId, socketId, (participant) => {
+    participant.reconnecting = true;
+    participant.transmitting = false;
+    delete participant.whisperTargets;
+    return true;
+  });
+  if (!held) {
+    await removeParticipant(io, session.roomId, socketId);
+    return;
+  }
+
+  await store.holdSession(session.resumeToken, { socketId, session }, graceMs);
+  // A resumed slot has moved to its new socket id, so only an unclaimed one is still here.
+  setTimeout(() => {
+    store
+      .getParticipant(session.roomId, socketId)
+      .then((participant) =>
+        participant?.reconnecting ? removeParticipant(io, session.roomId, socketId) : undefined
+      )
+      .catch(logStoreError);
+  }, graceMs).unref();
+
+  emitTo(io, session.roomId, "peer-left", { socketId });
+  await broadcastParticipantUpdate(io, session.roomId);
+}
+
+/**
+ * Moves a held participant slot onto `socket`, keeping its place in the room's
+ * join order along with mute state and role. A still-open socket on this
+ * instance holding the same token (the client noticed the drop before the
+ * server did) is retired; one on another instance is left to its own
+ * disconnect, and the join falls back to a fresh slot.
+ * @returns the resumed session, or null when there is nothing to resume
+ */
+async function resumeSession(
+  io: SignalingServer,
+  socket: SignalingSocket,
+  resumeToken: string,
+  roomId: string,
+  userId: string,
+  role: ParticipantRole,
+  graceMs: number
+): Promise<SessionData | null> {
+  const staleId = await store.findSocketByResumeToken(resumeToken);
+  const stale = staleId && staleId !== socket.id ? io.sockets.sockets.get(staleId) : undefined;
+  if (stale) {
+    const retired = runForSocket(stale.id, () => suspendSession(io, stale, graceMs));
+    stale.disconnect(true);
+    await retired;
+  }
+
+  const suspended = await store.takeHeldSession(resumeToken);
+  if (
+    !suspended ||
+    suspended.session.roomId !== roomId ||
+    suspended.session.userId !== userId
+  ) {
+    return null;
+  }
+  const participant = await store.getParticipant(roomId, suspended.socketId);
+  if (!participant) {
+    return null;
+  }
+
+  participant.socketId = socket.id;
+  participant.reconnecting = false;
+  // The fresh join token is authoritative, e.g. if a moderator was demoted meanwhile.
+  participant.role = role;
+  if (!(await store.moveParticipant(roomId, suspended.socketId, participant))) {
+    return null;
+  }
+
+  const session: SessionData = {
+    ...suspended.session,
+    role,
+    resumeToken: createResumeToken(),
+  };
+  await store.setSession(socket.id, session);
+  return session;
+}
+
+export function registerSignalingHandlers(
+  io: SignalingServer,
+  options: SignalingOptions
+): void {
+  const authOptions: AuthOptions = options.auth ?? {};
+  const resumeGraceMs = options.resumeGraceMs ?? DEFAULT_RESUME_GRACE_MS;
+  store = options.store;
+
+  store
+    .subscribe((message) => {
+      if (message.type === "emit") {
+        deliverLocally(io, message.to, message.event, message.payload, message.except);
+        return;
+      }
+      const target = io.sockets.sockets.get(message.socketId);
+      if (target) {
+        kickSocket(io, target, message.roomId, message.reason);
+      }
+    })
+    .catch(logStoreError);
+  setInterval(() => {
+    removeOrphanedParticipants(io).catch(logStoreError);
+  }, ORPHAN_SWEEP_INTERVAL_MS).unref();
+
   io.on("connection", (socket) => {
-    socket.on("join-room", (payload: JoinRoomPayload) => {
-      const roomId = GLOBAL_ROOM_ID;
-      const userId = payload.userId?.trim();
+    /**
+     * Registers a handler that only runs for payloads that pass validation,
+     * within the socket's rate limit for that event. A socket's handlers run
+     * one at a time, and not at all once it has disconnected.
+     */
+    const on = <E extends ClientEventName>(
+      event: E,
+      handler: (payload: ClientToServerPayloads[E]) => Promise<void>
+    ): void => {
+      // Payloads are untrusted until parsed, whatever the typed event map says,
+      // so the listener goes on the untyped socket.
+      (socket as Socket).on(event as string, (raw: unknown) => {
+        const parsed = admitInbound(socket.id, event, raw);
+        if (!parsed.ok) {
+          rejectEvent(io, socket, parsed.code, parsed.message);
+          return;
+        }
+        const payload = parsed.value;
+        void runForSocket(socket.id, async () => {
+          if (socket.connected) {
+            await handler(payload);
+          }
+        });
+      });
+    };
+
+    socket.onAny((event: unknown) => {
+      if (typeof event !== "string" || !isInboundEvent(event)) {
+        rejectEvent(io, socket, "INVALID_PAYLOAD", "Unknown event.");
+      }
+    });
+
+    on("join-room", async (payload) => {
+      if (payload.protocolVersion !== PROTOCOL_VERSION) {
+        sendVoiceError(socket, "PROTOCOL_MISMATCH", PROTOCOL_MISMATCH_MESSAGE);
+        return;
+      }
+
+      const roomId = payload.roomId?.trim();
+      let userId = payload.userId?.trim();
+      let role: ParticipantRole = "member";
+      let claims: JoinTokenClaims | null = null;
+
+      if (authOptions.joinTokenSecret) {
+        const token = payload.token?.trim();
+        if (!token) {
+          sendVoiceError(socket, "INVALID_JOIN", "A join token is required.");
+          return;
+        }
+
+        const result = verifyJoinToken(token, authOptions.joinTokenSecret);
+        if (!result.ok) {
+          sendVoiceError(socket, result.code, result.message);
+          return;
+        }
+        // The token, not the client, decides who this is.
+        claims = result.claims;
+        userId = claims.sub;
+        role = claims.role;
+      }
 
       if (!userId) {
-        socket.emit("voice-error", {
-          code: "INVALID_JOIN",
-          message: "userId is required.",
-        });
+        sendVoiceError(socket, "INVALID_JOIN", "userId is required.");
         return;
       }
 
-      if (!canTalk(userId, roomId)) {
-        socket.emit("voice-error", {
-          code: "FORBIDDEN",
-          message: "You are not allowed to talk in this room.",
-        });
+      if (!roomId || !ROOM_ID_PATTERN.test(roomId)) {
+        sendVoiceError(
+          socket,
+          "INVALID_JOIN",
+          "roomId must be 1-64 letters, digits, dashes or underscores."
+        );
         return;
       }
 
-      removeSocketFromRoom(io, socket);
+      // Linked players may always join the room of the Roblox server they are in.
+      const robloxUserId = await getLinkedRobloxUserId(store, userId);
+      const gameRoomId = robloxUserId ? await getPlayerGameRoom(store, robloxUserId) : undefined;
+      if (!canTalk(claims, roomId) && roomId !== gameRoomId) {
+        sendVoiceError(socket, "FORBIDDEN", "You are not allowed to talk in this room.");
+        return;
+      }
 
-      const room = rooms.get(roomId) ?? new Map<string, Participant>();
-      rooms.set(roomId, room);
+      const ban = await getActiveBan(store, roomId, userId);
+      if (ban) {
+        sendVoiceError(
+          socket,
+          "BANNED",
+          `You are banned from this room until ${new Date(ban.until).toISOString()}.`
+        );
+        return;
+      }
 
-      room.set(socket.id, {
-        socketId: socket.id,
-        userId,
-        muted: false,
-      });
+      await removeSocketFromRoom(io, socket);
 
-      sessions.set(socket.id, { roomId, userId, muted: false });
+      const resumeToken = payload.resumeToken?.trim();
+      let session = resumeToken
+        ? await resumeSession(io, socket, resumeToken, roomId, userId, role, resumeGraceMs)
+        : null;
+      const resumed = session !== null;
+
+      if (!session) {
+        await store.addParticipant(roomId, {
+          socketId: socket.id,
+          userId,
+          muted: false,
+          role,
+          serverMuted: await isServerMuted(store, roomId, userId),
+          robloxUserId,
+          stageRole: initialStageRole(await store.isStageRoom(roomId), role),
+        });
+
+        session = { roomId, userId, muted: false, role, resumeToken: createResumeToken() };
+        await store.setSession(socket.id, session);
+      }
       socket.join(roomId);
 
-      const existingParticipants = getRoomParticipants(roomId).filter(
-        (participant) => participant.socketId !== socket.id
+      const [participants, stage] = await Promise.all([
+        store.listParticipants(roomId),
+        store.isStageRoom(roomId),
+      ]);
+      // Held slots have no socket to answer an offer until they resume.
+      const self = participants.find((participant) => participant.socketId === socket.id);
+      const existingParticipants = participants.filter(
+        (participant) =>
+          participant.socketId !== socket.id &&
+          !participant.reconnecting &&
+          (!self || canConnect(stage, self, participant))
       );
 
       socket.emit("joined-room", {
         roomId,
+        protocolVersion: PROTOCOL_VERSION,
         selfSocketId: socket.id,
         participants: existingParticipants,
+        resumeToken: session.resumeToken,
+        resumed,
+        chatHistory: await getChatHistory(store, roomId),
+        stage,
+        stageRole: self?.stageRole,
       });
 
-      socket.to(roomId).emit("participant-joined", {
-        socketId: socket.id,
-        userId,
+      // Sent either way: a socket moved here may still hold the last room's mute.
+      socket.emit("server-muted", { muted: await isServerMuted(store, roomId, userId) });
+
+      emitTo(io, roomId, "participant-joined", { socketId: socket.id, userId, resumed }, socket.id);
+
+      await broadcastParticipantUpdate(io, roomId);
+
+      if (gameRoomId && gameRoomId !== roomId) {
+        socket.emit("room-assigned", { roomId: gameRoomId });
+      }
+    });
+
+    on("leave-room", async () => {
+      await removeSocketFromRoom(io, socket);
+    });
+
+    on("set-muted", async (payload) => {
+      const session = await store.getSession(socket.id);
+      if (!session) {
+        return;
+      }
+
+      const { muted } = payload;
+      const updated = await store.updateParticipant(session.roomId, socket.id, (participant) => {
+        participant.muted = muted;
+        return true;
       });
+      if (!updated) {
+        return;
+      }
 
-      broadcastParticipantUpdate(io, roomId);
+      await store.setSession(socket.id, { ...session, muted });
+      await broadcastParticipantUpdate(io, session.roomId);
     });
 
-    socket.on("leave-room", () => {
-      removeSocketFromRoom(io, socket);
+    // Whether the client's transmit mode (push-to-talk, voice gate) currently sends audio.
+    on("set-transmitting", async (payload) => {
+      const session = await store.getSession(socket.id);
+      if (!session) {
+        return;
+      }
+
+      const changed = await store.updateParticipant(session.roomId, socket.id, (participant) => {
+        // Listeners have no uplink, whatever their client claims.
+        const transmitting = payload.transmitting && participant.stageRole !== "listener";
+        if (participant.transmitting === transmitting) {
+          return false;
+        }
+        participant.transmitting = transmitting;
+        return true;
+      });
+      if (changed) {
+        await broadcastParticipantUpdate(io, session.roomId);
+      }
     });
 
-    socket.on("set-muted", (payload: { muted: boolean }) => {
-      const session = sessions.get(socket.id);
+    on("chat-send", async (payload) => {
+      const session = await store.getSession(socket.id);
       if (!session) {
         return;
       }
 
-      const room = rooms.get(session.roomId);
-      if (!room) {
+      const result = await postChatMessage(
+        store,
+        session.roomId,
+        socket.id,
+        session.userId,
+        payload.text
+      );
+      if (!result.ok) {
+        sendVoiceError(socket, result.code, result.message);
         return;
       }
+      emitTo(io, session.roomId, "chat-message", result.message);
+    });
 
-      const participant = room.get(socket.id);
-      if (!participant) {
+    on("delete-chat-message", async (payload) => {
+      const session = await store.getSession(socket.id);
+      if (!session || session.role !== "moderator") {
+        sendVoiceError(socket, "FORBIDDEN", "Only moderators can do that.");
         return;
       }
 
-      participant.muted = Boolean(payload?.muted);
-      session.muted = participant.muted;
-      broadcastParticipantUpdate(io, session.roomId);
+      const { messageId } = payload;
+      if (await deleteChatMessage(store, session.roomId, messageId)) {
+        emitTo(io, session.roomId, "chat-deleted", { messageId });
+      }
     });
 
-    socket.on(
-      "offer",
-      (payload: { to: string; sdp: SessionDescriptionPayload }) => {
-        const session = sessions.get(socket.id);
-        if (!session) {
-          return;
+    // Channel routing is applied by listeners; the server only validates and relays it.
+    on("set-team", async (payload) => {
+      const session = await store.getSession(socket.id);
+      if (!session) {
+        return;
+      }
+
+      const team = payload.team?.trim() ?? "";
+      if (team && !TEAM_NAME_PATTERN.test(team)) {
+        sendVoiceError(
+          socket,
+          "INVALID_CHANNEL",
+          "Team names must be 1-32 letters, digits, spaces, dashes or underscores."
+        );
+        return;
+      }
+      const changed = await store.updateParticipant(session.roomId, socket.id, (participant) => {
+        if ((participant.team ?? "") === team) {
+          return false;
+        }
+        if (team) {
+          participant.team = team;
+        } else {
+          delete participant.team;
         }
+        return true;
+      });
+      if (changed) {
+        await broadcastParticipantUpdate(io, session.roomId);
+      }
+    });
 
-        io.to(payload.to).emit("offer", {
-          from: socket.id,
-          userId: session.userId,
-          sdp: payload.sdp,
-        });
+    on("set-whisper", async (payload) => {
+      const session = await store.getSession(socket.id);
+      if (!session) {
+        return;
       }
-    );
 
-    socket.on(
-      "answer",
-      (payload: { to: string; sdp: SessionDescriptionPayload }) => {
-        const session = sessions.get(socket.id);
-        if (!session) {
-          return;
+      const roomSocketIds = new Set(
+        (await store.listParticipants(session.roomId)).map((participant) => participant.socketId)
+      );
+      const targets = Array.from(new Set(payload.targets))
+        .filter((target) => target !== socket.id && roomSocketIds.has(target))
+        .slice(0, MAX_WHISPER_TARGETS);
+      const changed = await store.updateParticipant(session.roomId, socket.id, (participant) => {
+        if (targets.length > 0) {
+          participant.whisperTargets = targets;
+        } else if (participant.whisperTargets) {
+          delete participant.whisperTargets;
+        } else {
+          return false;
         }
+        return true;
+      });
+      if (changed) {
+        await broadcastParticipantUpdate(io, session.roomId);
+      }
+    });
 
-        io.to(payload.to).emit("answer", {
-          from: socket.id,
-          userId: session.userId,
-          sdp: payload.sdp,
-        });
+    /** Resolves a moderation target in the caller's room, or reports why not. */
+    const resolveModerationTarget = async (
+      payload: ModerationTarget
+    ): Promise<{ roomId: string; moderatorId: string; target: Participant } | null> => {
+      const session = await store.getSession(socket.id);
+      if (!session || session.role !== "moderator") {
+        sendVoiceError(socket, "FORBIDDEN", "Only moderators can do that.");
+        return null;
       }
-    );
+      const target = await store.getParticipant(session.roomId, payload.socketId);
+      if (!target || target.socketId === socket.id) {
+        sendVoiceError(socket, "INVALID_TARGET", "That participant is not in your room.");
+        return null;
+      }
+      return { roomId: session.roomId, moderatorId: session.userId, target };
+    };
 
-    socket.on(
-      "ice-candidate",
-      (payload: { to: string; candidate: IceCandidatePayload }) => {
-        const session = sessions.get(socket.id);
-        if (!session) {
-          return;
+    on("set-stage-mode", async (payload) => {
+      const session = await store.getSession(socket.id);
+      if (!session || session.role !== "moderator") {
+        sendVoiceError(socket, "FORBIDDEN", "Only moderators can do that.");
+        return;
+      }
+      const { enabled } = payload;
+      if (!(await store.setStageRoom(session.roomId, enabled))) {
+        return;
+      }
+      const participants = await store.listParticipants(session.roomId);
+      await Promise.all(
+        participants.map(({ socketId }) =>
+          store.updateParticipant(session.roomId, socketId, (participant) => {
+            resetStageRole(participant, enabled);
+            return true;
+          })
+        )
+      );
+      await broadcastParticipantUpdate(io, session.roomId);
+    });
+
+    on("raise-hand", async (payload) => {
+      const session = await store.getSession(socket.id);
+      if (!session) {
+        return;
+      }
+
+      const { raised } = payload;
+      const changed = await store.updateParticipant(session.roomId, socket.id, (participant) => {
+        if (
+          participant.stageRole !== "listener" ||
+          raised === (participant.handRaisedAt !== undefined)
+        ) {
+          return false;
         }
+        if (raised) {
+          participant.handRaisedAt = Date.now();
+        } else {
+          delete participant.handRaisedAt;
+        }
+        return true;
+      });
+      if (changed) {
+        await broadcastParticipantUpdate(io, session.roomId);
+      }
+    });
 
-        io.to(payload.to).emit("ice-candidate", {
-          from: socket.id,
-          userId: session.userId,
-          candidate: payload.candidate,
-        });
+    on("set-stage-role", async (payload) => {
+      const resolved = await resolveModerationTarget(payload);
+      if (!resolved || !(await store.isStageRoom(resolved.roomId))) {
+        return;
+      }
+      const { role } = payload;
+      const changed = await store.updateParticipant(
+        resolved.roomId,
+        resolved.target.socketId,
+        (participant) => {
+          if (participant.stageRole === role) {
+            return false;
+          }
+          participant.stageRole = role;
+          delete participant.handRaisedAt;
+          if (role === "listener") {
+            participant.transmitting = false;
+          }
+          return true;
+        }
+      );
+      if (changed) {
+        await broadcastParticipantUpdate(io, resolved.roomId);
+      }
+    });
+
+    on("server-mute", async (payload) => {
+      const resolved = await resolveModerationTarget(payload);
+      if (resolved) {
+        await setUserServerMuted(io, resolved.roomId, resolved.target.userId, payload.muted);
       }
-    );
+    });
+
+    on("kick", async (payload) => {
+      const resolved = await resolveModerationTarget(payload);
+      if (resolved) {
+        await kickUser(
+          io,
+          resolved.roomId,
+          resolved.target.userId,
+          payload.reason?.trim() || "You were removed from the room by a moderator."
+        );
+      }
+    });
+
+    on("ban", async (payload) => {
+      const resolved = await resolveModerationTarget(payload);
+      if (!resolved) {
+        return;
+      }
+      const durationSeconds = Math.min(
+        MAX_BAN_SECONDS,
+        Math.max(MIN_BAN_SECONDS, payload.durationSeconds || MIN_BAN_SECONDS)
+      );
+      await banUser(
+        io,
+        resolved.roomId,
+        resolved.target.userId,
+        durationSeconds,
+        resolved.moderatorId,
+        payload.reason?.trim() || undefined
+      );
+    });
+
+    on("offer", async (payload) => {
+      const session = await store.getSession(socket.id);
+      if (!session || !(await canRelay(store, session, socket.id, payload.to, payload.sdp))) {
+        return;
+      }
+
+      emitTo(io, payload.to, "offer", {
+        from: socket.id,
+        userId: session.userId,
+        sdp: payload.sdp,
+      });
+    });
+
+    on("answer", async (payload) => {
+      const session = await store.getSession(socket.id);
+      if (!session || !(await canRelay(store, session, socket.id, payload.to, payload.sdp))) {
+        return;
+      }
+
+      emitTo(io, payload.to, "answer", {
+        from: socket.id,
+        userId: session.userId,
+        sdp: payload.sdp,
+      });
+    });
+
+    on("ice-candidate", async (payload) => {
+      const session = await store.getSession(socket.id);
+      if (!session || !(await canRelay(store, session, socket.id, payload.to))) {
+        return;
+      }
+
+      emitTo(io, payload.to, "ice-candidate", {
+        from: socket.id,
+        userId: session.userId,
+        candidate: payload.candidate,
+      });
+    });
 
+    // Kicks and explicit leaves remove the session first, so only drops get here.
     socket.on("disconnect", () => {
-      removeSocketFromRoom(io, socket);
+      void runForSocket(socket.id, () => suspendSession(io, socket, resumeGraceMs));
     });
   });
 }
@@ -0,0 +1,45 @@
+import type { Participant, ParticipantRole, StageRole } from "./types.js";
+
+const RECEIVE_ONLY_DIRECTION = /^a=(recvonly|inactive)\s*$/;
+
+/** Moderators go on stage; everyone else starts as a listener. */
+export function initialStageRole(stage: boolean, role: ParticipantRole): StageRole | undefined {
+  if (!stage) {
+    return undefined;
+  }
+  return role === "moderator" ? "speaker" : "listener";
+}
+
+/** Resets a participant's stage role after their room switched in or out of stage mode. */
+export function resetStageRole(participant: Participant, stage: boolean): void {
+  const stageRole = initialStageRole(stage, participant.role ?? "member");
+  if (stageRole) {
+    participant.stageRole = stageRole;
+  } else {
+    delete participant.stageRole;
+  }
+  delete participant.handRaisedAt;
+  if (stageRole === "listener") {
+    participant.transmitting = false;
+  }
+}
+
+/** In a stage room two listeners have nothing to exchange, so they never connect. */
+export function canConnect(stage: boolean, a: Participant, b: Participant): boolean {
+  return !stage || a.stageRole === "speaker" || b.stageRole === "speaker";
+}
+
+/**
+ * Whether a listener may send this SDP: every audio section must say
+ * recvonly or inactive (a section without a direction defaults to sendrecv).
+ */
+export function isReceiveOnlySdp(sdp: unknown): boolean {
+  const text = (sdp as { sdp?: unknown } | null)?.sdp;
+  if (typeof text !== "string") {
+    return false;
+  }
+  const sections = text.split(/\r?\n(?=m=)/).filter((section) => section.startsWith("m=audio"));
+  return sections.every((section) =>
+    section.split(/\r?\n/).some((line) => RECEIVE_ONLY_DIRECTION.test(line))
+  );
+}
@@ -0,0 +1,270 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { after, describe, it } from "node:test";
+import { connectRedis } from "./redis.js";
+import { connectRedisStore } from "./redisStore.js";
+import { createMemoryStore, type FanoutMessage, type RoomStore } from "./store.js";
+import type { Participant, SessionData } from "./types.js";
+
+const REDIS_URL = process.env.REDIS_URL ?? "redis://127.0.0.1:6379";
+// Every run gets its own keys, so a shared Redis is left as it was.
+const KEY_PREFIX = `voice-test:${randomUUID()}:`;
+
+async function redisSkipReason(): Promise<string | false> {
+  try {
+    const client = await connectRedis(REDIS_URL);
+    await client.command("PING");
+    client.close();
+    return false;
+  } catch {
+    return `no Redis reachable at ${REDIS_URL}`;
+  }
+}
+
+const skipRedis = await redisSkipReason();
+
+function participant(socketId: string, extra: Partial<Participant> = {}): Participant {
+  return { socketId, userId: `user-${socketId}`, muted: false, ...extra };
+}
+
+function session(resumeToken: string): SessionData {
+  return { roomId: "lobby", userId: "ana", muted: false, role: "member", resumeToken };
+}
+
+/** What every store must do, whichever backend holds the data. */
+function describeStoreContract(name: string, openStore: () => Promise<RoomStore>): void {
+  describe(name, () => {
+    const opened: RoomStore[] = [];
+    const open = async () => {
+      const store = await openStore();
+      opened.push(store);
+      return store;
+    };
+    after(async () => {
+      await Promise.all(opened.map((store) => store.close()));
+    });
+
+    it("keeps participants in join order and indexes them by Roblox user id", async () => {
+      const store = await open();
+      await store.addParticipant("lobby", participant("b", { robloxUserId: 7 }));
+      await store.addParticipant("lobby", participant("a"));
+
+      assert.deepEqual(
+        (await store.listParticipants("lobby")).map((entry) => entry.socketId),
+        ["b", "a"]
+      );
+      assert.ok((await store.listRoomIds()).includes("lobby"));
+      assert.deepEqual(await store.findParticipantsByRobloxUserId(7), [
+        { roomId: "lobby", participant: participant("b", { robloxUserId: 7 }) },
+      ]);
+    });
+
+    it("updates, moves and removes participants", async () => {
+      const store = await open();
+      await store.addParticipant("hall", participant("old", { robloxUserId: 9 }));
+      assert.equal(await store.setStageRoom("hall", true), true);
+
+      assert.equal(await store.updateParticipant("hall", "old", () => false), false);
+      assert.equal(
+        await store.updateParticipant("hall", "old", (entry) => {
+          entry.muted = true;
+          return true;
+        }),
+        true
+      );
+      assert.equal((await store.getParticipant("hall", "old"))?.muted, true);
+
+      assert.equal(await store.moveParticipant("hall", "old", participant("new")), true);
+      assert.equal(await store.getParticipant("hall", "old"), undefined);
+      assert.deepEqual(await store.getParticipant("hall", "new"), participant("new"));
+      assert.deepEqual(await store.findParticipantsByRobloxUserId(9), []);
+
+      assert.equal(await store.removeParticipant("hall", "new"), true);
+      assert.equal(await store.removeParticipant("hall", "new"), false);
+      assert.equal(await store.isStageRoom("hall"), false);
+      assert.equal(await store.updateParticipant("hall", "new", () => true), false);
+    });
+
+    it("finds sessions by resume token and hands a held session out once", async () => {
+      const store = await open();
+      await store.setSession("s1", session("token-1"));
+      assert.equal(await store.findSocketByResumeToken("token-1"), "s1");
+
+      await store.setSession("s1", session("token-2"));
+      assert.equal(await store.findSocketByResumeToken("token-1"), undefined);
+      await store.deleteSession("s1");
+      assert.equal(await store.getSession("s1"), undefined);
+      assert.equal(await store.findSocketByResumeToken("token-2"), undefined);
+
+      await store.holdSession("token-3", { socketId: "s1", session: session("token-3") }, 1000);
+      assert.equal((await store.takeHeldSession("token-3"))?.socketId, "s1");
+      assert.equal(await store.takeHeldSession("token-3"), undefined);
+    });
+
+    it("keeps bans, server mutes and chat history", async () => {
+      const store = await open();
+      const ban = { userId: "eve", until: Date.now() + 1000, bannedBy: "admin" };
+      await store.setBan("lobby", ban);
+      assert.deepEqual(await store.getBan("lobby", "eve"), ban);
+      assert.deepEqual(await store.listBans("lobby"), [ban]);
+      assert.equal(await store.removeBan("lobby", "eve"), true);
+      assert.equal(await store.removeBan("lobby", "eve"), false);
+
+      await store.setServerMute("lobby", "eve", true);
+      assert.equal(await store.isServerMuted("lobby", "eve"), true);
+      await store.setServerMute("lobby", "eve", false);
+      assert.equal(await store.isServerMuted("lobby", "eve"), false);
+
+      for (const id of ["m1", "m2", "m3"]) {
+        const message = { id, socketId: "a", userId: "ana", text: id, sentAt: 1 };
+        await store.appendChatMessage("lobby", message, 2);
+      }
+      assert.deepEqual(
+        (await store.listChatMessages("lobby")).map((message) => message.id),
+        ["m2", "m3"]
+      );
+      assert.equal(await store.deleteChatMessage("lobby", "m2"), true);
+      assert.equal(await store.deleteChatMessage("lobby", "m1"), false);
+      await store.clearChatHistory("lobby");
+      assert.deepEqual(await store.listChatMessages("lobby"), []);
+    });
+
+    it("links accounts both ways and accepts each link code once", async () => {
+      const store = await open();
+      await store.linkRobloxAccount("ana", 1);
+      await store.linkRobloxAccount("bob", 1);
+      assert.equal(await store.getLinkedRobloxUserId("ana"), undefined);
+      assert.equal(await store.getLinkedRobloxUserId("bob"), 1);
+
+      assert.equal(await store.addLinkCode("CODE1", "ana", 1000), true);
+      assert.equal(await store.addLinkCode("CODE1", "bob", 1000), false);
+      assert.equal(await store.addLinkCode("CODE2", "ana", 1000), true);
+      assert.equal(await store.takeLinkCode("CODE1"), undefined);
+      assert.equal(await store.takeLinkCode("CODE2"), "ana");
+      assert.equal(await store.takeLinkCode("CODE2"), undefined);
+    });
+
+    it("tracks game servers and which one each player is in", async () => {
+      const store = await open();
+      const server = {
+        jobId: "job",
+        placeId: 1,
+        roomId: "roblox",
+        lastHeartbeatAt: 1,
+        players: [5],
+      };
+      await store.saveGameServer(server);
+      assert.deepEqual(await store.getGameServer("job"), server);
+      assert.deepEqual(await store.listGameServers(), [server]);
+
+      assert.equal(await store.setPlayerGameServer(5, "job"), true);
+      assert.equal(await store.setPlayerGameServer(5, "job"), false);
+      assert.equal(await store.getPlayerGameServer(5), "job");
+      assert.equal(await store.releasePlayerGameServer(5, "other"), false);
+      assert.equal(await store.releasePlayerGameServer(5, "job"), true);
+      assert.equal(await store.getPlayerGameServer(5), undefined);
+
+      assert.equal(await store.removeGameServer("job"), true);
+      assert.equal(await store.removeGameServer("job"), false);
+    });
+
+    it("hands out each stale position report once", async () => {
+      const store = await open();
+      await store.touchPlayerPositions([1, 2], 100);
+      await store.touchPlayerPositions([2], 200);
+      assert.deepEqual(await store.takeStalePlayerPositions(150), [1]);
+      assert.deepEqual(await store.takeStalePlayerPositions(150), []);
+      assert.deepEqual(await store.takeStalePlayerPositions(200), [2]);
+    });
+  });
+}
+
+// Each memory store is a fresh process's worth of state; Redis runs share one prefix.
+describeStoreContract("memory store", async () => createMemoryStore());
+
+describe("redis store", { skip: skipRedis }, () => {
+  let testPrefix = 0;
+  describeStoreContract("contract", () =>
+    connectRedisStore({ url: REDIS_URL, keyPrefix: `${KEY_PREFIX}${(testPrefix += 1)}:` })
+  );
+
+  const instances: RoomStore[] = [];
+  const openInstance = async (instanceTtlMs?: number) => {
+    const store = await connectRedisStore({
+      url: REDIS_URL,
+      keyPrefix: `${KEY_PREFIX}shared:`,
+      instanceTtlMs,
+    });
+    instances.push(store);
+    return store;
+  };
+  after(async () => {
+    await Promise.all(instances.map((store) => store.close()));
+    const client = await connectRedis(REDIS_URL);
+    let cursor = "0";
+    do {
+      const reply = await client.command("SCAN", cursor, "MATCH", `${KEY_PREFIX}*`);
+      const [next, batch] = Array.isArray(reply) ? reply : ["0", []];
+      cursor = String(next);
+      if (Array.isArray(batch) && batch.length > 0) {
+        await client.command("DEL", ...batch.map(String));
+      }
+    } while (cursor !== "0");
+    client.close();
+  });
+
+  it("keeps concurrent updates from two instances", async () => {
+    const first = await openInstance();
+    const second = await openInstance();
+    await first.addParticipant("race", participant("p", { position: { x: 0, y: 0, z: 0 } }));
+
+    const step = (store: RoomStore) =>
+      store.updateParticipant("race", "p", (entry) => {
+        entry.position = { x: (entry.position?.x ?? 0) + 1, y: 0, z: 0 };
+        return true;
+      });
+    await Promise.all([1, 2, 3, 4].flatMap(() => [step(first), step(second)]));
+
+    assert.equal((await second.getParticipant("race", "p"))?.position?.x, 8);
+  });
+
+  it("publishes to the other instances only", async () => {
+    const sender = await openInstance();
+    const receiver = await openInstance();
+    const sent: FanoutMessage[] = [];
+    const received: FanoutMessage[] = [];
+    await sender.subscribe((message) => sent.push(message));
+    let arrive = () => {};
+    const arrived = new Promise<void>((resolve) => {
+      arrive = resolve;
+    });
+    await receiver.subscribe((message) => {
+      received.push(message);
+      arrive();
+    });
+
+    const message: FanoutMessage = { type: "kick", socketId: "s", roomId: "r", reason: "test" };
+    await sender.publish(message);
+    await arrived;
+    assert.deepEqual(received, [message]);
+    assert.deepEqual(sent, []);
+  });
+
+  it("removes the participants of an instance that stopped heartbeating", async () => {
+    const survivor = await openInstance();
+    const stopped = await connectRedisStore({
+      url: REDIS_URL,
+      keyPrefix: `${KEY_PREFIX}shared:`,
+      instanceTtlMs: 300,
+    });
+    await stopped.addParticipant("orphans", participant("gone"));
+    await stopped.setSession("gone", session("token-gone"));
+    await stopped.close();
+    await new Promise((resolve) => setTimeout(resolve, 400));
+
+    assert.deepEqual(await survivor.removeOrphans(), [{ roomId: "orphans", socketId: "gone" }]);
+    assert.deepEqual(await survivor.listParticipants("orphans"), []);
+    assert.equal(await survivor.getSession("gone"), undefined);
+    assert.deepEqual(await survivor.removeOrphans(), []);
+  });
+});
@@ -0,0 +1,435 @@
+import type {
+  BanRecord,
+  ChatMessage,
+  GameServerRecord,
+  Participant,
+  ServerEventName,
+  SessionData,
+} from "./types.js";
+
+/** A participant slot held for a dropped socket until it resumes or the grace window ends. */
+export type SuspendedSession = {
+  /** The dropped socket, still the participant's key in the room. */
+  socketId: string;
+  session: SessionData;
+};
+
+/** Sent to every other signaling instance sharing the store. */
+export type FanoutMessage =
+  | {
+      type: "emit";
+      /** Room id or socket id, as for `io.to()`. */
+      to: string;
+      /** Socket left out, as for `socket.to()`. */
+      except?: string;
+      event: ServerEventName;
+      payload: unknown;
+    }
+  /** Run by whichever instance holds the socket. */
+  | { type: "kick"; socketId: string; roomId: string; reason: string };
+
+/** A participant left behind by a signaling instance that stopped responding. */
+export type OrphanedParticipant = {
+  roomId: string;
+  socketId: string;
+};
+
+/**
+ * Everything the signaling server knows that outlives a single request: room
+ * membership, sessions and participant state, moderation, chat, Roblox links
+ * and the game server registry. Instances that share a store share all of
+ * it, and `publish` reaches sockets connected to the other instances.
+ * Everything handed out is a copy; changes only stick through the store's
+ * methods.
+ */
+export type RoomStore = {
+  /** Rooms with at least one participant, live or held. */
+  listRoomIds(): Promise<string[]>;
+  /** In join order. */
+  listParticipants(roomId: string): Promise<Participant[]>;
+  getParticipant(roomId: string, socketId: string): Promise<Participant | undefined>;
+  /** Every participant record for a Roblox account, across all rooms. */
+  findParticipantsByRobloxUserId(
+    robloxUserId: number
+  ): Promise<Array<{ roomId: string; participant: Participant }>>;
+  /** Adds a participant at the end of the room's join order. */
+  addParticipant(roomId: string, participant: Participant): Promise<void>;
+  /**
+   * Applies `update` to the participant and saves the result if it returns
+   * true. `update` may run more than once if another instance changes the
+   * participant at the same time; only one of its runs is saved.
+   * @returns whether anything was saved
+   */
+  updateParticipant(
+    roomId: string,
+    socketId: string,
+    update: (participant: Participant) => boolean
+  ): Promise<boolean>;
+  /** Re-keys a participant under `participant.socketId`, keeping its place in the join order. */
+  moveParticipant(roomId: string, fromSocketId: string, participant: Participant): Promise<boolean>;
+  /** The room and its stage mode go away with the last participant. */
+  removeParticipant(roomId: string, socketId: string): Promise<boolean>;
+
+  isStageRoom(roomId: string): Promise<boolean>;
+  /** @returns whether the mode changed */
+  setStageRoom(roomId: string, enabled: boolean): Promise<boolean>;
+
+  getSession(socketId: string): Promise<SessionData | undefined>;
+  setSession(socketId: string, session: SessionData): Promise<void>;
+  deleteSession(socketId: string): Promise<void>;
+  /** The live socket whose session carries `resumeToken`. */
+  findSocketByResumeToken(resumeToken: string): Promise<string | undefined>;
+
+  /** Keeps a dropped session resumable for `ttlMs`. */
+  holdSession(resumeToken: string, suspended: SuspendedSession, ttlMs: number): Promise<void>;
+  /** Removes and returns a held session, so only one socket can ever resume it. */
+  takeHeldSession(resumeToken: string): Promise<SuspendedSession | undefined>;
+
+  /** Expired bans stay until removed; `moderation.ts` decides what still applies. */
+  getBan(roomId: string, userId: string): Promise<BanRecord | undefined>;
+  listBans(roomId: string): Promise<BanRecord[]>;
+  setBan(roomId: string, ban: BanRecord): Promise<void>;
+  /** @returns whether there was a ban to remove */
+  removeBan(roomId: string, userId: string): Promise<boolean>;
+  isServerMuted(roomId: string, userId: string): Promise<boolean>;
+  setServerMute(roomId: string, userId: string, muted: boolean): Promise<void>;
+
+  /** Oldest first. */
+  listChatMessages(roomId: string): Promise<ChatMessage[]>;
+  /** Appends a message, dropping the oldest ones past `limit`. */
+  appendChatMessage(roomId: string, message: ChatMessage, limit: number): Promise<void>;
+  /** @returns whether the message was in the room's history */
+  deleteChatMessage(roomId: string, messageId: string): Promise<boolean>;
+  clearChatHistory(roomId: string): Promise<void>;
+
+  getLinkedRobloxUserId(userId: string): Promise<number | undefined>;
+  /** Links both ways, replacing any earlier link of either account. */
+  linkRobloxAccount(userId: string, robloxUserId: number): Promise<void>;
+  /**
+   * Saves a one-time link code for `ttlMs`, replacing the user's previous one.
+   * @returns false if the code is already in use
+   */
+  addLinkCode(code: string, userId: string, ttlMs: number): Promise<boolean>;
+  /** Removes an unexpired code and returns whose it was, so it only works once. */
+  takeLinkCode(code: string): Promise<string | undefined>;
+
+  getGameServer(jobId: string): Promise<GameServerRecord | undefined>;
+  listGameServers(): Promise<GameServerRecord[]>;
+  saveGameServer(server: GameServerRecord): Promise<void>;
+  /** @returns whether it was registered, so only one caller closes its room */
+  removeGameServer(jobId: string): Promise<boolean>;
+  /** JobId of the game server the player was last reported in. */
+  getPlayerGameServer(robloxUserId: number): Promise<string | undefined>;
+  /** @returns whether the player was reported somewhere else before */
+  setPlayerGameServer(robloxUserId: number, jobId: string): Promise<boolean>;
+  /** Forgets the player's game server, but only if it is still `jobId`. */
+  releasePlayerGameServer(robloxUserId: number, jobId: string): Promise<boolean>;
+
+  /** Records that game servers sent positions for these players at `at` (epoch ms). */
+  touchPlayerPositions(robloxUserIds: number[], at: number): Promise<void>;
+  /** Removes and returns the players not reported since `cutoff`, each to one caller only. */
+  takeStalePlayerPositions(cutoff: number): Promise<number[]>;
+
+  /** Drops the participants and sessions of instances that stopped responding. */
+  removeOrphans(): Promise<OrphanedParticipant[]>;
+
+  publish(message: FanoutMessage): Promise<void>;
+  /** `onMessage` gets what other instances publish, never this one's own messages. */
+  subscribe(onMessage: (message: FanoutMessage) => void): Promise<void>;
+  close(): Promise<void>;
+};
+
+/** Store calls fail while a shared backend is unreachable; the event that needed it is dropped. */
+export function logStoreError(error: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error("Room store error:", error);
+}
+
+/** Keeps everything in this process, for a single signaling instance. */
+export function createMemoryStore(): RoomStore {
+  const rooms: Map<string, Map<string, Participant>> = new Map();
+  const stageRooms: Set<string> = new Set();
+  const sessions: Map<string, SessionData> = new Map();
+  const socketsByResumeToken: Map<string, string> = new Map();
+  const heldSessions: Map<string, SuspendedSession> = new Map();
+  const bans: Map<string, Map<string, BanRecord>> = new Map();
+  const serverMutes: Map<string, Set<string>> = new Map();
+  const chatHistories: Map<string, ChatMessage[]> = new Map();
+  const robloxIdsByUserId: Map<string, number> = new Map();
+  const userIdsByRobloxId: Map<number, string> = new Map();
+  const linkCodes: Map<string, { userId: string; expiresAt: number }> = new Map();
+  const gameServers: Map<string, GameServerRecord> = new Map();
+  const jobIdsByRobloxUserId: Map<number, string> = new Map();
+  const positionReports: Map<number, number> = new Map();
+
+  const deleteSession = (socketId: string): void => {
+    const session = sessions.get(socketId);
+    if (session && socketsByResumeToken.get(session.resumeToken) === socketId) {
+      socketsByResumeToken.delete(session.resumeToken);
+    }
+    sessions.delete(socketId);
+  };
+
+  const pruneLinkCodes = (): void => {
+    const now = Date.now();
+    for (const [code, pending] of linkCodes.entries()) {
+      if (pending.expiresAt <= now) {
+        linkCodes.delete(code);
+      }
+    }
+  };
+
+  return {
+    async listRoomIds() {
+      return Array.from(rooms.keys());
+    },
+    async listParticipants(roomId) {
+      return structuredClone(Array.from(rooms.get(roomId)?.values() ?? []));
+    },
+    async getParticipant(roomId, socketId) {
+      const participant = rooms.get(roomId)?.get(socketId);
+      return participant && structuredClone(participant);
+    },
+    async findParticipantsByRobloxUserId(robloxUserId) {
+      const matches: Array<{ roomId: string; participant: Participant }> = [];
+      for (const [roomId, room] of rooms.entries()) {
+        for (const participant of room.values()) {
+          if (participant.robloxUserId === robloxUserId) {
+            matches.push({ roomId, participant: structuredClone(participant) });
+          }
+        }
+      }
+      return matches;
+    },
+    async addParticipant(roomId, participant) {
+      const room = rooms.get(roomId) ?? new Map<string, Participant>();
+      rooms.set(roomId, room);
+      room.set(participant.socketId, structuredClone(participant));
+    },
+    async updateParticipant(roomId, socketId, update) {
+      const room = rooms.get(roomId);
+      const participant = room?.get(socketId);
+      if (!room || !participant) {
+        return false;
+      }
+      const next = structuredClone(participant);
+      if (!update(next)) {
+        return false;
+      }
+      room.set(socketId, next);
+      return true;
+    },
+    async moveParticipant(roomId, fromSocketId, participant) {
+      const room = rooms.get(roomId);
+      if (!room?.has(fromSocketId)) {
+        return false;
+      }
+      rooms.set(
+        roomId,
+        new Map(
+          Array.from(room.entries(), ([socketId, entry]) =>
+            socketId === fromSocketId
+              ? [participant.socketId, structuredClone(participant)]
+              : [socketId, entry]
+          )
+        )
+      );
+      return true;
+    },
+    async removeParticipant(roomId, socketId) {
+      const room = rooms.get(roomId);
+      if (!room?.delete(socketId)) {
+        return false;
+      }
+      if (room.size === 0) {
+        rooms.delete(roomId);
+        stageRooms.delete(roomId);
+      }
+      return true;
+    },
+    async isStageRoom(roomId) {
+      return stageRooms.has(roomId);
+    },
+    async setStageRoom(roomId, enabled) {
+      if (stageRooms.has(roomId) === enabled) {
+        return false;
+      }
+      if (enabled) {
+        stageRooms.add(roomId);
+      } else {
+        stageRooms.delete(roomId);
+      }
+      return true;
+    },
+    async getSession(socketId) {
+      const session = sessions.get(socketId);
+      return session && { ...session };
+    },
+    async setSession(socketId, session) {
+      deleteSession(socketId);
+      sessions.set(socketId, { ...session });
+      socketsByResumeToken.set(session.resumeToken, socketId);
+    },
+    async deleteSession(socketId) {
+      deleteSession(socketId);
+    },
+    async findSocketByResumeToken(resumeToken) {
+      return socketsByResumeToken.get(resumeToken);
+    },
+    async holdSession(resumeToken, suspended, ttlMs) {
+      const held = structuredClone(suspended);
+      heldSessions.set(resumeToken, held);
+      setTimeout(() => {
+        if (heldSessions.get(resumeToken) === held) {
+          heldSessions.delete(resumeToken);
+        }
+      }, ttlMs).unref();
+    },
+    async takeHeldSession(resumeToken) {
+      const held = heldSessions.get(resumeToken);
+      heldSessions.delete(resumeToken);
+      return held;
+    },
+    async getBan(roomId, userId) {
+      const ban = bans.get(roomId)?.get(userId);
+      return ban && { ...ban };
+    },
+    async listBans(roomId) {
+      return Array.from(bans.get(roomId)?.values() ?? [], (ban) => ({ ...ban }));
+    },
+    async setBan(roomId, ban) {
+      const roomBans = bans.get(roomId) ?? new Map<string, BanRecord>();
+      roomBans.set(ban.userId, { ...ban });
+      bans.set(roomId, roomBans);
+    },
+    async removeBan(roomId, userId) {
+      const roomBans = bans.get(roomId);
+      const removed = roomBans?.delete(userId) ?? false;
+      if (roomBans?.size === 0) {
+        bans.delete(roomId);
+      }
+      return removed;
+    },
+    async isServerMuted(roomId, userId) {
+      return serverMutes.get(roomId)?.has(userId) ?? false;
+    },
+    async setServerMute(roomId, userId, muted) {
+      const roomMutes = serverMutes.get(roomId) ?? new Set<string>();
+      if (muted) {
+        roomMutes.add(userId);
+        serverMutes.set(roomId, roomMutes);
+        return;
+      }
+      roomMutes.delete(userId);
+      if (roomMutes.size === 0) {
+        serverMutes.delete(roomId);
+      }
+    },
+    async listChatMessages(roomId) {
+      return structuredClone(chatHistories.get(roomId) ?? []);
+    },
+    async appendChatMessage(roomId, message, limit) {
+      const history = chatHistories.get(roomId) ?? [];
+      history.push({ ...message });
+      if (history.length > limit) {
+        history.splice(0, history.length - limit);
+      }
+      chatHistories.set(roomId, history);
+    },
+    async deleteChatMessage(roomId, messageId) {
+      const history = chatHistories.get(roomId);
+      const index = history?.findIndex((message) => message.id === messageId) ?? -1;
+      if (!history || index < 0) {
+        return false;
+      }
+      history.splice(index, 1);
+      return true;
+    },
+    async clearChatHistory(roomId) {
+      chatHistories.delete(roomId);
+    },
+    async getLinkedRobloxUserId(userId) {
+      return robloxIdsByUserId.get(userId);
+    },
+    async linkRobloxAccount(userId, robloxUserId) {
+      const previousUserId = userIdsByRobloxId.get(robloxUserId);
+      if (previousUserId) {
+        robloxIdsByUserId.delete(previousUserId);
+      }
+      const previousRobloxUserId = robloxIdsByUserId.get(userId);
+      if (previousRobloxUserId !== undefined) {
+        userIdsByRobloxId.delete(previousRobloxUserId);
+      }
+      robloxIdsByUserId.set(userId, robloxUserId);
+      userIdsByRobloxId.set(robloxUserId, userId);
+    },
+    async addLinkCode(code, userId, ttlMs) {
+      pruneLinkCodes();
+      if (linkCodes.has(code)) {
+        return false;
+      }
+      for (const [previous, pending] of linkCodes.entries()) {
+        if (pending.userId === userId) {
+          linkCodes.delete(previous);
+        }
+      }
+      linkCodes.set(code, { userId, expiresAt: Date.now() + ttlMs });
+      return true;
+    },
+    async takeLinkCode(code) {
+      const pending = linkCodes.get(code);
+      linkCodes.delete(code);
+      return pending && pending.expiresAt > Date.now() ? pending.userId : undefined;
+    },
+    async getGameServer(jobId) {
+      const server = gameServers.get(jobId);
+      return server && structuredClone(server);
+    },
+    async listGameServers() {
+      return structuredClone(Array.from(gameServers.values()));
+    },
+    async saveGameServer(server) {
+      gameServers.set(server.jobId, structuredClone(server));
+    },
+    async removeGameServer(jobId) {
+      return gameServers.delete(jobId);
+    },
+    async getPlayerGameServer(robloxUserId) {
+      return jobIdsByRobloxUserId.get(robloxUserId);
+    },
+    async setPlayerGameServer(robloxUserId, jobId) {
+      const previous = jobIdsByRobloxUserId.get(robloxUserId);
+      jobIdsByRobloxUserId.set(robloxUserId, jobId);
+      return previous !== jobId;
+    },
+    async releasePlayerGameServer(robloxUserId, jobId) {
+      if (jobIdsByRobloxUserId.get(robloxUserId) !== jobId) {
+        return false;
+      }
+      jobIdsByRobloxUserId.delete(robloxUserId);
+      return true;
+    },
+    async touchPlayerPositions(robloxUserIds, at) {
+      for (const robloxUserId of robloxUserIds) {
+        positionReports.set(robloxUserId, at);
+      }
+    },
+    async takeStalePlayerPositions(cutoff) {
+      const stale: number[] = [];
+      for (const [robloxUserId, reportedAt] of positionReports.entries()) {
+        if (reportedAt <= cutoff) {
+          positionReports.delete(robloxUserId);
+          stale.push(robloxUserId);
+        }
+      }
+      return stale;
+    },
+    // A single process has no one else to lose track of.
+    async removeOrphans() {
+      return [];
+    },
+    async publish() {},
+    async subscribe() {},
+    async close() {},
+  };
+}
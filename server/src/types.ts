@@ -1,19 +1,177 @@
-export type Participant = {
-  socketId: string;
+import type { Server, Socket } from "socket.io";
+import type {
+  ClientToServerEvents,
+  ParticipantRole,
+  ServerToClientEvents,
+  Vector3,
+} from "../../shared/protocol.js";
+import type { RoomStore } from "./store.js";
+
+export type {
+  ChatMessage,
+  ClientEventName,
+  ClientToServerPayloads,
+  IceCandidate,
+  JoinRoomPayload,
+  ModerationTarget,
+  Participant,
+  ParticipantRole,
+  PositionDelta,
+  ServerEventName,
+  ServerToClientPayloads,
+  SessionDescription,
+  StageRole,
+  Vector3,
+  VoiceError,
+  VoiceErrorCode,
+} from "../../shared/protocol.js";
+
+export type SignalingServer = Server<ClientToServerEvents, ServerToClientEvents>;
+
+export type SignalingSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+export type BanRecord = {
   userId: string;
-  muted: boolean;
-  robloxUserId?: number;
-  inGame?: boolean;
-  position?: { x: number; y: number; z: number };
+  /** Epoch ms when the ban lapses. */
+  until: number;
+  reason?: string;
+  /** Moderator user id, or "admin" for the REST API. */
+  bannedBy: string;
 };
 
-export type JoinRoomPayload = {
+/** A registered Roblox game server, as kept in the room store. */
+export type GameServerRecord = {
+  jobId: string;
+  placeId: number;
   roomId: string;
-  userId: string;
+  lastHeartbeatAt: number;
+  /** Roblox user ids from its latest heartbeat. */
+  players: number[];
 };
 
 export type SessionData = {
   roomId: string;
   userId: string;
   muted: boolean;
+  role: ParticipantRole;
+  resumeToken: string;
+};
+
+export type JoinTokenClaims = {
+  /** The user id the holder joins as. */
+  sub: string;
+  /** Room ids the holder may join; "*" allows any room. */
+  rooms: string[];
+  role: ParticipantRole;
+  /** Seconds since epoch. */
+  iat: number;
+  exp: number;
+};
+
+export type JoinTokenResult =
+  | { ok: true; claims: JoinTokenClaims }
+  | { ok: false; code: "TOKEN_INVALID" | "TOKEN_EXPIRED"; message: string };
+
+export type AuthOptions = {
+  /** HMAC secret for join tokens. Unset means joins are not authenticated. */
+  joinTokenSecret?: string;
+  tokenTtlSeconds?: number;
+  /** Trusted backends mint tokens with `Authorization: Bearer <issuerKey>`. */
+  issuerKey?: string;
+  /** Lets anyone mint a member token for themselves (development only). */
+  allowGuestTokens?: boolean;
+};
+
+export type SignalingOptions = {
+  auth?: AuthOptions;
+  /** How long a dropped participant's slot is held for them to resume. */
+  resumeGraceMs?: number;
+  /** Shared with every other module, so all of them see the same rooms. */
+  store: RoomStore;
+};
+
+export type RedisStoreOptions = {
+  /** `redis://` or `rediss://`, with optional credentials and database number. */
+  url: string;
+  /** Prepended to every key and channel, so several deployments can share one server. */
+  keyPrefix?: string;
+  /** An instance without a heartbeat for this long has its participants removed. */
+  instanceTtlMs?: number;
+};
+
+export type PeerBrokerOptions = {
+  /** Mount path, matching the PeerJS client's `path` option. */
+  path: string;
+  key?: string;
+  /** How long to hold relayed messages for a peer that has not connected yet. */
+  expireTimeoutMs?: number;
+  /** Drop clients that have not sent anything (including heartbeats) for this long. */
+  aliveTimeoutMs?: number;
+  maxClients?: number;
+};
+
+export type PositionIngestOptions = {
+  store: RoomStore;
+  /** Shared secret game servers send as a bearer token. */
+  secret?: string;
+  maxBatchSize?: number;
+  /** A player with no update for this long is marked `inGame: false`. */
+  staleAfterMs?: number;
+  /** Minimum spacing between `position-update` broadcasts to a room. */
+  broadcastIntervalMs?: number;
+};
+
+export type PositionUpdate = {
+  robloxUserId: number;
+  position: Vector3;
+  inGame: boolean;
+};
+
+export type LinkingOptions = {
+  store: RoomStore;
+  /** Shared secret for the game-server confirm route. */
+  secret?: string;
+  codeTtlMs?: number;
+  /** Decides who is asking for a code (join token or plain userId). */
+  auth: AuthOptions;
+  /** Called after a code is confirmed so live participants can be updated. */
+  onLinked: (userId: string, robloxUserId: number) => void;
+};
+
+export type GameServerOptions = {
+  store: RoomStore;
+  /** Shared secret game servers send as a bearer token. */
+  secret?: string;
+  /** A server with no heartbeat for this long is treated as shut down. */
+  heartbeatTimeoutMs?: number;
+  /**
+   * A player showed up in a different game server (joined or teleported), or
+   * left the last one they were in (`roomId` null).
+   */
+  onPlayerMoved: (robloxUserId: number, roomId: string | null) => void;
+  /** The game server deregistered or timed out; its room should be closed. */
+  onServerClosed: (roomId: string) => void;
+};
+
+/** Same shape as the browser's `RTCIceServer`. */
+export type IceServer = {
+  urls: string[];
+  username?: string;
+  credential?: string;
+};
+
+export type IceServerOptions = {
+  stunUrls: string[];
+  turnUrls: string[];
+  /** Shared with the TURN server (coturn `static-auth-secret`); TURN is off without it. */
+  turnSecret?: string;
+  ttlSeconds?: number;
+  /** Decides whose name goes into the TURN username (join token or plain userId). */
+  auth: AuthOptions;
+};
+
+export type IceServerResponse = {
+  iceServers: IceServer[];
+  /** When the TURN credentials stop working; null when there are none to refresh. */
+  expiresAt: number | null;
 };
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MAX_CANDIDATE_LENGTH, MAX_SDP_LENGTH, parseInbound } from "./validation.js";
+
+describe("parseInbound", () => {
+  it("keeps only the known fields of a valid payload", () => {
+    assert.deepEqual(
+      parseInbound("offer", {
+        to: "peer-b",
+        sdp: { type: "offer", sdp: "v=0", extra: "dropped" },
+        smuggled: true,
+      }),
+      { ok: true, value: { to: "peer-b", sdp: { type: "offer", sdp: "v=0" } } }
+    );
+    assert.deepEqual(parseInbound("leave-room", undefined), { ok: true, value: undefined });
+  });
+
+  it("rejects payloads that are not objects", () => {
+    for (const raw of [undefined, null, "muted", 1, [true]]) {
+      const result = parseInbound("set-muted", raw);
+      assert.equal(result.ok, false);
+      assert.equal(!result.ok && result.code, "INVALID_PAYLOAD");
+    }
+  });
+
+  it("rejects fields of the wrong type or shape", () => {
+    const malformed = [
+      parseInbound("set-muted", { muted: "yes" }),
+      parseInbound("chat-send", { text: 42 }),
+      parseInbound("answer", { to: "peer-b", sdp: { type: "offer", sdp: "v=0" } }),
+      parseInbound("ice-candidate", {
+        to: "peer-b",
+        candidate: { candidate: "candidate:1", sdpMLineIndex: -1 },
+      }),
+      parseInbound("set-whisper", { targets: "peer-b" }),
+      parseInbound("set-stage-role", { socketId: "peer-b", role: "host" }),
+      parseInbound("ban", { socketId: "peer-b", durationSeconds: Number.NaN }),
+    ];
+    for (const result of malformed) {
+      assert.equal(result.ok, false);
+      assert.equal(!result.ok && result.code, "INVALID_PAYLOAD");
+    }
+  });
+
+  it("rejects oversized fields and lists", () => {
+    const oversized = [
+      parseInbound("offer", {
+        to: "peer-b",
+        sdp: { type: "offer", sdp: "a".repeat(MAX_SDP_LENGTH + 1) },
+      }),
+      parseInbound("ice-candidate", {
+        to: "peer-b",
+        candidate: { candidate: "a".repeat(MAX_CANDIDATE_LENGTH + 1) },
+      }),
+      parseInbound("kick", { socketId: "a".repeat(1000) }),
+      parseInbound("set-whisper", { targets: Array.from({ length: 1000 }, (_, i) => `peer-${i}`) }),
+    ];
+    for (const result of oversized) {
+      assert.equal(result.ok, false);
+      assert.equal(!result.ok && result.code, "PAYLOAD_TOO_LARGE");
+    }
+  });
+});
@@ -0,0 +1,206 @@
+import type {
+  ClientEventName,
+  ClientToServerPayloads,
+  IceCandidate,
+  SessionDescription,
+  VoiceError,
+} from "./types.js";
+
+export type ParseResult<T> = { ok: true; value: T } | ({ ok: false } & VoiceError);
+
+// An audio-only SDP is a few KB; anything near this is not a voice offer.
+export const MAX_SDP_LENGTH = 16 * 1024;
+export const MAX_CANDIDATE_LENGTH = 1024;
+// Socket, user, room and message ids; their own rules are checked by the handlers.
+const MAX_ID_LENGTH = 128;
+const MAX_TOKEN_LENGTH = 4096;
+// Chat enforces its own, smaller limit with a friendlier message.
+const MAX_TEXT_LENGTH = 4096;
+const MAX_TEAM_LENGTH = 64;
+const MAX_REASON_LENGTH = 200;
+const MAX_WHISPER_TARGET_IDS = 64;
+
+type Payload = Record<string, unknown>;
+
+/** Thrown by the field readers below; never escapes `parseInbound`. */
+class PayloadError extends Error {
+  constructor(
+    readonly code: "INVALID_PAYLOAD" | "PAYLOAD_TOO_LARGE",
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function isPayload(raw: unknown): raw is Payload {
+  return typeof raw === "object" && raw !== null && !Array.isArray(raw);
+}
+
+function checkString(value: unknown, name: string, maxLength: number): string {
+  if (typeof value !== "string") {
+    throw new PayloadError("INVALID_PAYLOAD", `${name} must be a string.`);
+  }
+  if (value.length > maxLength) {
+    throw new PayloadError("PAYLOAD_TOO_LARGE", `${name} is longer than ${maxLength} characters.`);
+  }
+  return value;
+}
+
+function readString(payload: Payload, key: string, maxLength: number): string {
+  return checkString(payload[key], key, maxLength);
+}
+
+function readOptionalString(payload: Payload, key: string, maxLength: number): string | undefined {
+  return payload[key] === undefined ? undefined : readString(payload, key, maxLength);
+}
+
+function readNullableString(payload: Payload, key: string, maxLength: number): string | null {
+  return payload[key] === undefined || payload[key] === null
+    ? null
+    : readString(payload, key, maxLength);
+}
+
+function readBoolean(payload: Payload, key: string): boolean {
+  const value = payload[key];
+  if (typeof value !== "boolean") {
+    throw new PayloadError("INVALID_PAYLOAD", `${key} must be true or false.`);
+  }
+  return value;
+}
+
+function readNumber(payload: Payload, key: string): number {
+  const value = payload[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new PayloadError("INVALID_PAYLOAD", `${key} must be a number.`);
+  }
+  return value;
+}
+
+function readObject(payload: Payload, key: string): Payload {
+  const value = payload[key];
+  if (!isPayload(value)) {
+    throw new PayloadError("INVALID_PAYLOAD", `${key} must be an object.`);
+  }
+  return value;
+}
+
+function readSessionDescription(
+  payload: Payload,
+  type: SessionDescription["type"]
+): { to: string; sdp: SessionDescription } {
+  const description = readObject(payload, "sdp");
+  if (description.type !== type) {
+    throw new PayloadError("INVALID_PAYLOAD", `sdp.type must be "${type}".`);
+  }
+  return {
+    to: readString(payload, "to", MAX_ID_LENGTH),
+    // Rebuilt so only known fields are relayed.
+    sdp: { type, sdp: readString(description, "sdp", MAX_SDP_LENGTH) },
+  };
+}
+
+function readIceCandidate(payload: Payload): IceCandidate {
+  const candidate = readObject(payload, "candidate");
+  const lineIndex = candidate.sdpMLineIndex;
+  if (
+    lineIndex !== undefined &&
+    lineIndex !== null &&
+    !(Number.isSafeInteger(lineIndex) && (lineIndex as number) >= 0)
+  ) {
+    throw new PayloadError("INVALID_PAYLOAD", "sdpMLineIndex must be a non-negative integer.");
+  }
+  return {
+    candidate: readString(candidate, "candidate", MAX_CANDIDATE_LENGTH),
+    sdpMid: readNullableString(candidate, "sdpMid", MAX_ID_LENGTH),
+    sdpMLineIndex: (lineIndex as number | null | undefined) ?? null,
+    usernameFragment: readNullableString(candidate, "usernameFragment", MAX_ID_LENGTH),
+  };
+}
+
+const parsers: { [E in ClientEventName]: (payload: Payload) => ClientToServerPayloads[E] } = {
+  "join-room": (payload) => ({
+    // Blank ids are reported by the join handler itself, with INVALID_JOIN.
+    roomId: readOptionalString(payload, "roomId", MAX_ID_LENGTH) ?? "",
+    userId: readOptionalString(payload, "userId", MAX_ID_LENGTH) ?? "",
+    // Clients from before the handshake send none; 0 makes the handler refuse them.
+    protocolVersion:
+      payload.protocolVersion === undefined ? 0 : readNumber(payload, "protocolVersion"),
+    token: readOptionalString(payload, "token", MAX_TOKEN_LENGTH),
+    resumeToken: readOptionalString(payload, "resumeToken", MAX_TOKEN_LENGTH),
+  }),
+  "leave-room": () => undefined,
+  "set-muted": (payload) => ({ muted: readBoolean(payload, "muted") }),
+  "set-transmitting": (payload) => ({ transmitting: readBoolean(payload, "transmitting") }),
+  "chat-send": (payload) => ({ text: readString(payload, "text", MAX_TEXT_LENGTH) }),
+  "delete-chat-message": (payload) => ({
+    messageId: readString(payload, "messageId", MAX_ID_LENGTH),
+  }),
+  "set-team": (payload) => ({ team: readNullableString(payload, "team", MAX_TEAM_LENGTH) }),
+  "set-whisper": (payload) => {
+    const targets = payload.targets;
+    if (!Array.isArray(targets)) {
+      throw new PayloadError("INVALID_PAYLOAD", "targets must be a list of participant ids.");
+    }
+    if (targets.length > MAX_WHISPER_TARGET_IDS) {
+      throw new PayloadError(
+        "PAYLOAD_TOO_LARGE",
+        `targets has more than ${MAX_WHISPER_TARGET_IDS} entries.`
+      );
+    }
+    return { targets: targets.map((target) => checkString(target, "targets[]", MAX_ID_LENGTH)) };
+  },
+  "set-stage-mode": (payload) => ({ enabled: readBoolean(payload, "enabled") }),
+  "raise-hand": (payload) => ({ raised: readBoolean(payload, "raised") }),
+  "set-stage-role": (payload) => {
+    const role = payload.role;
+    if (role !== "speaker" && role !== "listener") {
+      throw new PayloadError("INVALID_PAYLOAD", 'role must be "speaker" or "listener".');
+    }
+    return { socketId: readString(payload, "socketId", MAX_ID_LENGTH), role };
+  },
+  "server-mute": (payload) => ({
+    socketId: readString(payload, "socketId", MAX_ID_LENGTH),
+    muted: readBoolean(payload, "muted"),
+  }),
+  kick: (payload) => ({
+    socketId: readString(payload, "socketId", MAX_ID_LENGTH),
+    reason: readOptionalString(payload, "reason", MAX_REASON_LENGTH),
+  }),
+  ban: (payload) => ({
+    socketId: readString(payload, "socketId", MAX_ID_LENGTH),
+    durationSeconds: readNumber(payload, "durationSeconds"),
+    reason: readOptionalString(payload, "reason", MAX_REASON_LENGTH),
+  }),
+  offer: (payload) => readSessionDescription(payload, "offer"),
+  answer: (payload) => readSessionDescription(payload, "answer"),
+  "ice-candidate": (payload) => ({
+    to: readString(payload, "to", MAX_ID_LENGTH),
+    candidate: readIceCandidate(payload),
+  }),
+};
+
+export function isInboundEvent(event: string): event is ClientEventName {
+  return Object.hasOwn(parsers, event);
+}
+
+/**
+ * Checks an inbound socket event against its expected shape and size limits.
+ * The returned value only carries known fields, so relays cannot smuggle extras.
+ */
+export function parseInbound<E extends ClientEventName>(
+  event: E,
+  raw: unknown
+): ParseResult<ClientToServerPayloads[E]> {
+  if (event !== "leave-room" && !isPayload(raw)) {
+    return { ok: false, code: "INVALID_PAYLOAD", message: `${event} needs an object payload.` };
+  }
+  try {
+    const parse = parsers[event] as (payload: Payload) => ClientToServerPayloads[E];
+    return { ok: true, value: parse(isPayload(raw) ? raw : {}) };
+  } catch (error) {
+    if (error instanceof PayloadError) {
+      return { ok: false, code: error.code, message: `Invalid ${event}: ${error.message}` };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Wire protocol shared by the browser client and the signaling server: the
+ * socket.io events in both directions and the PeerJS room host's data-channel
+ * messages. Both sides compile against this file, so a payload change shows up
+ * as a type error on whichever side was not updated.
+ *
+ * Bump `PROTOCOL_VERSION` whenever a change would break a client or server
+ * still running the previous version.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/** Shown when the two ends of a join disagree on `PROTOCOL_VERSION`. */
+export const PROTOCOL_MISMATCH_MESSAGE =
+  "Voice chat has been updated. Please refresh the page to reconnect.";
+
+export type Vector3 = { x: number; y: number; z: number };
+
+export type ParticipantRole = "member" | "moderator";
+
+/** Set on everyone while a room is in stage mode. */
+export type StageRole = "speaker" | "listener";
+
+export type Participant = {
+  socketId: string;
+  userId: string;
+  /** Self-reported mic state. */
+  muted: boolean;
+  role?: ParticipantRole;
+  /** Muted by a moderator; the muted client keeps its mic off while set. */
+  serverMuted?: boolean;
+  /** Audio is currently being sent, per the participant's transmit mode. */
+  transmitting?: boolean;
+  /** Connection dropped; their slot is held while they try to resume. */
+  reconnecting?: boolean;
+  robloxUserId?: number;
+  inGame?: boolean;
+  position?: Vector3;
+  /** Team channel; absent means the room-wide channel. */
+  team?: string;
+  /** Participant ids being whispered to; only they should hear this participant meanwhile. */
+  whisperTargets?: string[];
+  /** Only in stage rooms; listeners are receive-only. */
+  stageRole?: StageRole;
+  /** When a listener raised their hand (epoch ms); orders the queue. */
+  handRaisedAt?: number;
+};
+
+export type ChatMessage = {
+  id: string;
+  /** Sender's participant id at the time of sending. */
+  socketId: string;
+  userId: string;
+  text: string;
+  /** Epoch milliseconds, stamped by the server or room host. */
+  sentAt: number;
+};
+
+/** `code` of every `voice-error` the server emits. */
+export type VoiceErrorCode =
+  | "INVALID_JOIN"
+  | "INVALID_PAYLOAD"
+  | "PAYLOAD_TOO_LARGE"
+  | "PROTOCOL_MISMATCH"
+  | "TOKEN_INVALID"
+  | "TOKEN_EXPIRED"
+  | "FORBIDDEN"
+  | "BANNED"
+  | "INVALID_TARGET"
+  | "INVALID_CHANNEL"
+  | "INVALID_MESSAGE"
+  | "RATE_LIMITED";
+
+export type VoiceError = {
+  code: VoiceErrorCode;
+  message: string;
+};
+
+/** Same shape as the browser's `RTCSessionDescriptionInit`, as relayed. */
+export type SessionDescription = {
+  type: "offer" | "answer";
+  sdp: string;
+};
+
+/** Same shape as the browser's `RTCIceCandidateInit`, as relayed. */
+export type IceCandidate = {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+};
+
+export type JoinRoomPayload = {
+  roomId: string;
+  userId: string;
+  /** The sender's `PROTOCOL_VERSION`; joins from any other version are refused. */
+  protocolVersion: number;
+  /** Signed join token; required when the server has a join token secret. */
+  token?: string;
+  /** From a previous `joined-room`; reclaims that participant slot if still held. */
+  resumeToken?: string;
+};
+
+export type JoinedRoomPayload = {
+  roomId: string;
+  /** The server's `PROTOCOL_VERSION`. */
+  protocolVersion: number;
+  selfSocketId: string;
+  /** Everyone this client should connect to, excluding itself and held slots. */
+  participants: Participant[];
+  resumeToken: string;
+  resumed: boolean;
+  chatHistory: ChatMessage[];
+  stage: boolean;
+  stageRole?: StageRole;
+};
+
+/** Moderation events name their target by participant id. */
+export type ModerationTarget = {
+  socketId: string;
+};
+
+/** Only the fields that changed since the last broadcast for that participant. */
+export type PositionDelta = {
+  socketId: string;
+  position?: Vector3;
+  inGame?: boolean;
+};
+
+/** Who a relayed offer, answer or candidate came from. */
+export type RelaySource = {
+  from: string;
+  userId: string;
+};
+
+/** Payload of every event a client may send to the signaling server. */
+export type ClientToServerPayloads = {
+  "join-room": JoinRoomPayload;
+  "leave-room": undefined;
+  "set-muted": { muted: boolean };
+  "set-transmitting": { transmitting: boolean };
+  "chat-send": { text: string };
+  "delete-chat-message": { messageId: string };
+  "set-team": { team: string | null };
+  "set-whisper": { targets: string[] };
+  "set-stage-mode": { enabled: boolean };
+  "raise-hand": { raised: boolean };
+  "set-stage-role": ModerationTarget & { role: StageRole };
+  "server-mute": ModerationTarget & { muted: boolean };
+  kick: ModerationTarget & { reason?: string };
+  ban: ModerationTarget & { durationSeconds: number; reason?: string };
+  offer: { to: string; sdp: SessionDescription };
+  answer: { to: string; sdp: SessionDescription };
+  "ice-candidate": { to: string; candidate: IceCandidate };
+};
+
+/** Payload of every event the signaling server sends to clients. */
+export type ServerToClientPayloads = {
+  "joined-room": JoinedRoomPayload;
+  "participant-joined": { socketId: string; userId: string; resumed: boolean };
+  "participant-update": { roomId: string; participants: Participant[]; stage: boolean };
+  /** Game-server positions, between full participant updates. */
+  "position-update": { roomId: string; updates: PositionDelta[] };
+  "peer-left": { socketId: string };
+  offer: RelaySource & { sdp: SessionDescription };
+  answer: RelaySource & { sdp: SessionDescription };
+  "ice-candidate": RelaySource & { candidate: IceCandidate };
+  "chat-message": ChatMessage;
+  "chat-deleted": { messageId: string };
+  "voice-error": VoiceError;
+  "server-muted": { muted: boolean };
+  /** The server wants this client in another room, e.g. its Roblox server's. */
+  "room-assigned": { roomId: string };
+  kicked: { roomId: string; reason: string };
+};
+
+export type ClientEventName = keyof ClientToServerPayloads;
+
+export type ServerEventName = keyof ServerToClientPayloads;
+
+export type ModerationEventName =
+  | "server-mute"
+  | "kick"
+  | "ban"
+  | "delete-chat-message"
+  | "set-stage-mode"
+  | "set-stage-role";
+
+/** A moderator request as one tagged union; the fields are that event's payload. */
+export type ModerationAction = {
+  [E in ModerationEventName]: { type: E } & ClientToServerPayloads[E];
+}[ModerationEventName];
+
+/** A payload map as the listener map socket.io's typed `Server` and `Socket` expect. */
+type Listeners<Payloads> = {
+  [E in keyof Payloads]: Payloads[E] extends undefined
+    ? () => void
+    : (payload: Payloads[E]) => void;
+};
+
+export type ClientToServerEvents = Listeners<ClientToServerPayloads>;
+
+export type ServerToClientEvents = Listeners<ServerToClientPayloads>;
+
+/** Messages on the data channels between PeerJS guests and the room host. */
+export type HostMessage =
+  | {
+      type: "join-request";
+      /** The guest's `PROTOCOL_VERSION`; missing means a guest from before versioning. */
+      protocolVersion?: number;
+      peerId: string;
+      userId: string;
+      muted?: boolean;
+      transmitting?: boolean;
+      team?: string;
+      whisperTargets?: string[];
+    }
+  | { type: "join-rejected"; reason: string }
+  | { type: "leave-request"; peerId: string }
+  | { type: "mute-update"; peerId: string; muted: boolean }
+  | { type: "transmit-update"; peerId: string; transmitting: boolean }
+  | { type: "channel-update"; peerId: string; team?: string; whisperTargets: string[] }
+  | { type: "participant-list"; hostId: string; participants: Participant[] }
+  | { type: "chat-send"; text: string }
+  | { type: "chat-message"; message: ChatMessage }
+  | { type: "chat-history"; messages: ChatMessage[] }
+  | { type: "chat-rejected"; reason: string }
+  | { type: "host-closing" };